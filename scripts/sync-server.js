@@ -0,0 +1,56 @@
+// Stand-in for the cloud save endpoint (see src/game/CloudSync.ts), keeps saves in memory.
+// Usage: npm run sync-server [-- <port>], then open the game with ?sync=http://localhost:8787/saves/<player>
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const saves = new Map(); // Path -> { body, etag }
+let version = 0;
+
+const send = (res, status, body = '', headers = {}) => {
+    res.writeHead(status, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, If-Match, If-None-Match',
+        'Access-Control-Expose-Headers': 'ETag',
+        ...headers
+    });
+    res.end(body);
+};
+
+const server = createServer((req, res) => {
+    const path = new URL(req.url, 'http://localhost').pathname;
+    const current = saves.get(path);
+    console.log(req.method, path);
+
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method === 'GET') {
+        if (!current) return send(res, 404);
+        return send(res, 200, current.body, { 'Content-Type': 'application/json', ETag: current.etag });
+    }
+    if (req.method === 'DELETE') {
+        saves.delete(path);
+        return send(res, 204);
+    }
+    if (req.method !== 'PUT') return send(res, 405);
+
+    // Only accept uploads based on the version the client last saw
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if ((ifMatch && ifMatch !== current?.etag) || (ifNoneMatch === '*' && current)) return send(res, 412);
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        try {
+            JSON.parse(body);
+        } catch {
+            return send(res, 400, 'Body must be JSON');
+        }
+        const etag = `"${++version}"`;
+        saves.set(path, { body, etag });
+        send(res, current ? 200 : 201, '', { ETag: etag });
+    });
+});
+
+// Port 0 picks a free one, the log line says which
+server.listen(port, () => console.log(`Sync stand-in listening on http://localhost:${server.address().port}`));
@@ -1,10 +1,11 @@
 import GameCanvas from './components/GameCanvas';
+import type { SaveStorage } from './game/SaveStorage';
 import './App.css'; // Keep existing styles or modify as needed
 
-function App() {
+function App({ storage }: { storage: SaveStorage }) {
   return (
     <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', margin: 0 }}>
-      <GameCanvas />
+      <GameCanvas storage={storage} />
     </div>
   );
 }
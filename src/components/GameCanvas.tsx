@@ -1,7 +1,13 @@
 import React, { useRef, useEffect } from 'react';
+import { getSyncEndpoint } from '../game/CloudSync';
 import GameEngine from '../game/GameEngine';
+import type { SaveStorage } from '../game/SaveStorage';
 
-const GameCanvas: React.FC = () => {
+interface GameCanvasProps {
+  storage: SaveStorage; // Where the engine keeps its save slots
+}
+
+const GameCanvas: React.FC<GameCanvasProps> = ({ storage }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const resizeTimeoutRef = useRef<number | null>(null);
 
@@ -16,7 +22,11 @@ const GameCanvas: React.FC = () => {
     canvas.width = window.innerWidth;
     canvas.height = window.innerHeight;
 
-    const engine = new GameEngine(canvas.width, canvas.height);
+    // Optional world seed from the URL (?seed=123) so players can share a shaft
+    const seedParam = new URLSearchParams(window.location.search).get('seed');
+    const seed = seedParam !== null && /^\d+$/.test(seedParam) ? Number(seedParam) : undefined;
+
+    const engine = new GameEngine(canvas.width, canvas.height, storage, seed, getSyncEndpoint());
 
     const handleResize = () => {
       canvas.width = window.innerWidth;
@@ -61,6 +71,8 @@ const GameCanvas: React.FC = () => {
     const onKeyDown = (e: KeyboardEvent) => {
         if (e.key === 'Escape') {
             engine.togglePause();
+        } else if (e.key === 'r' || e.key === 'R') {
+            engine.toggleRecording();
         }
     };
 
@@ -116,7 +128,7 @@ const GameCanvas: React.FC = () => {
       canvas.removeEventListener('touchstart', onTouchStart);
       canvas.removeEventListener('touchend', onTouchEnd);
     };
-  }, []);
+  }, [storage]);
 
   return <canvas ref={canvasRef} style={{ display: 'block' }} />;
 };
@@ -0,0 +1,120 @@
+import { parseMoney } from './Money';
+import { MONEY_UPGRADES, type MoneyUpgradeType } from './Simulation';
+import type Simulation from './Simulation';
+
+export interface AutoBuyStrategyDefinition {
+    name: string;
+}
+
+// Order the buyer considers affordable upgrades in
+export const AUTO_BUY_STRATEGIES = {
+    cheapest: { name: 'Cheapest First' },
+    shopOrder: { name: 'Shop Order' }
+} satisfies Record<string, AutoBuyStrategyDefinition>;
+
+export type AutoBuyStrategy = keyof typeof AUTO_BUY_STRATEGIES;
+
+export const AUTO_BUY_STRATEGY_IDS = Object.keys(AUTO_BUY_STRATEGIES) as AutoBuyStrategy[];
+
+// Keeps `upgrade` and `target` within `within` levels of each other (neither may pull further ahead)
+export interface AutoBuyLink {
+    upgrade: MoneyUpgradeType;
+    target: MoneyUpgradeType;
+    within: number;
+}
+
+// Player-editable rules, saved with the game
+export interface AutoBuyerConfig {
+    enabled: boolean;
+    strategy: AutoBuyStrategy;
+    reserve: string; // Money never spent, decimal string like SimulationState.money
+    upgrades: Partial<Record<MoneyUpgradeType, boolean>>; // Upgrades the buyer may pick, missing = off
+    links: AutoBuyLink[];
+}
+
+export const AUTO_BUYER_UNLOCK_PRESTIGES = 1; // Unlocks after the first prestige
+export const MAX_AUTO_BUY_LINKS = 3;
+export const LINK_DISTANCES = [1, 5, 10, 25];
+
+export const defaultAutoBuyerConfig = (): AutoBuyerConfig => ({
+    enabled: false,
+    strategy: 'cheapest',
+    reserve: '0',
+    upgrades: { damage: true, gravity: true, efficiency: true },
+    links: []
+});
+
+/**
+ * Spends money on upgrades by the player's rules, one level at a time, once per interval.
+ * Purchases go through Simulation.buyUpgrade so the caller can record them like clicks.
+ */
+class AutoBuyer {
+  config: AutoBuyerConfig = defaultAutoBuyerConfig();
+  private timer: number = 0;
+
+  readonly INTERVAL: number = 1000; // ms between shopping trips
+  readonly MAX_PURCHASES_PER_RUN: number = 50;
+
+  static isUnlocked(sim: Simulation): boolean {
+      return sim.prestigeCount >= AUTO_BUYER_UNLOCK_PRESTIGES;
+  }
+
+  // Restores saved rules on top of the defaults, dropping anything that no longer exists
+  loadConfig(saved: Partial<AutoBuyerConfig> | undefined) {
+      const config = { ...defaultAutoBuyerConfig(), ...saved };
+      if (!AUTO_BUY_STRATEGY_IDS.includes(config.strategy)) config.strategy = 'cheapest';
+      config.reserve = parseMoney(config.reserve).toString();
+      config.links = (config.links ?? []).filter(link =>
+          MONEY_UPGRADES.includes(link.upgrade) && MONEY_UPGRADES.includes(link.target) && link.within > 0
+      ).slice(0, MAX_AUTO_BUY_LINKS);
+      this.config = config;
+      this.timer = 0;
+  }
+
+  // Advances the interval timer and shops when it fires; returns the levels bought, in order
+  update(dt: number, sim: Simulation): MoneyUpgradeType[] {
+      if (!this.config.enabled || !AutoBuyer.isUnlocked(sim)) {
+          this.timer = 0;
+          return [];
+      }
+
+      this.timer += dt;
+      if (this.timer < this.INTERVAL) return [];
+      this.timer = 0;
+
+      const bought: MoneyUpgradeType[] = [];
+      while (bought.length < this.MAX_PURCHASES_PER_RUN) {
+          const next = this.pickNext(sim);
+          if (!next || !sim.buyUpgrade(next)) break;
+          bought.push(next);
+      }
+      return bought;
+  }
+
+  // Next upgrade the rules allow and the reserve covers, or null
+  pickNext(sim: Simulation): MoneyUpgradeType | null {
+      const reserve = parseMoney(this.config.reserve);
+      const prices = sim.getShopPrices();
+
+      const candidates = MONEY_UPGRADES.filter(type =>
+          this.config.upgrades[type]
+          && !sim.isUpgradeMaxed(type)
+          && !this.isHeldBack(type, sim)
+          && sim.money - prices[type] >= reserve
+      );
+      if (this.config.strategy === 'cheapest') {
+          candidates.sort((a, b) => (prices[a] < prices[b] ? -1 : prices[a] > prices[b] ? 1 : 0));
+      }
+      return candidates[0] ?? null;
+  }
+
+  // True when another level would put `type` too far ahead of an upgrade it is linked with
+  isHeldBack(type: MoneyUpgradeType, sim: Simulation): boolean {
+      return this.config.links.some(link =>
+          (link.upgrade === type && sim.upgrades[type] >= sim.upgrades[link.target] + link.within)
+          || (link.target === type && sim.upgrades[type] >= sim.upgrades[link.upgrade] + link.within)
+      );
+  }
+}
+
+export default AutoBuyer;
@@ -0,0 +1,87 @@
+import type Simulation from './Simulation';
+
+// Player-set triggers, saved with the game (a trigger at 0 is off)
+export interface AutoPrestigeConfig {
+    enabled: boolean;
+    depth: number; // Fire once the deepest ball passes this many meters
+    benefit: number; // Fire once Simulation.getPrestigeBenefit() reaches this multiplier
+}
+
+// One prestige, manual or automatic
+export interface PrestigeLogEntry {
+    at: number; // Timestamp of the prestige
+    prestige: number; // Prestige count it reached
+    depth: number; // Depth in meters when it happened
+    runMs: number; // Wall-clock length of the run it ended
+    auto: boolean;
+}
+
+// Choices the settings cycle through
+export const AUTO_PRESTIGE_DEPTHS = [0, 1000, 1500, 2000, 3000, 5000];
+export const AUTO_PRESTIGE_BENEFITS = [0, 1.1, 1.25, 1.5, 2, 3];
+
+export const MAX_PRESTIGE_LOG = 10;
+
+export const defaultAutoPrestigeConfig = (): AutoPrestigeConfig => ({
+    enabled: false,
+    depth: 1000,
+    benefit: 0
+});
+
+/**
+ * Prestiges on the player's behalf once a trigger is met, after an on-screen countdown they can cancel.
+ * A cancelled countdown stays quiet until the next prestige.
+ */
+class AutoPrestige {
+  config: AutoPrestigeConfig = defaultAutoPrestigeConfig();
+  countdown: number | null = null; // ms left before firing, null while idle
+  cancelled: boolean = false;
+
+  readonly COUNTDOWN: number = 5000;
+
+  // Restores saved triggers on top of the defaults
+  loadConfig(saved: Partial<AutoPrestigeConfig> | undefined) {
+      const config = { ...defaultAutoPrestigeConfig(), ...saved };
+      if (!AUTO_PRESTIGE_DEPTHS.includes(config.depth)) config.depth = defaultAutoPrestigeConfig().depth;
+      if (!AUTO_PRESTIGE_BENEFITS.includes(config.benefit)) config.benefit = 0;
+      this.config = config;
+      this.reset();
+  }
+
+  isTriggered(sim: Simulation): boolean {
+      if (!sim.canPrestige()) return false;
+      const { depth, benefit } = this.config;
+      return (depth > 0 && sim.getDepth() >= depth) || (benefit > 0 && sim.getPrestigeBenefit() >= benefit);
+  }
+
+  // Runs the countdown while a trigger holds; true on the frame the prestige should happen
+  update(dt: number, sim: Simulation): boolean {
+      if (!this.config.enabled || this.cancelled || !this.isTriggered(sim)) {
+          this.countdown = null;
+          return false;
+      }
+
+      if (this.countdown === null) {
+          this.countdown = this.COUNTDOWN;
+          return false;
+      }
+
+      this.countdown -= dt;
+      if (this.countdown > 0) return false;
+      this.countdown = null;
+      return true;
+  }
+
+  cancel() {
+      this.countdown = null;
+      this.cancelled = true;
+  }
+
+  // Called on every prestige so the next run can trigger again
+  reset() {
+      this.countdown = null;
+      this.cancelled = false;
+  }
+}
+
+export default AutoPrestige;
@@ -8,6 +8,7 @@ class Ball {
   gravity: number;
   elasticity: number; // bounciness
   damage: number;
+  lifetime?: number; // Remaining ms for temporary balls, undefined for permanent ones
 
   constructor(x: number, y: number, radius: number, color: string, dx: number, dy: number, gravity: number, elasticity: number, damage: number = 1) {
     this.x = x;
@@ -21,7 +22,7 @@ class Ball {
     this.damage = damage;
   }
 
-  update(canvas: HTMLCanvasElement, timeScale: number = 1) {
+  update(bounds: { width: number; height: number }, timeScale: number = 1) {
     // Apply gravity scaled by time
     this.dy += this.gravity * timeScale;
     
@@ -30,11 +31,11 @@ class Ball {
     this.x += this.dx * timeScale;
 
     // Boundary collision detection and response (walls)
-    if (this.x + this.radius > canvas.width || this.x - this.radius < 0) {
+    if (this.x + this.radius > bounds.width || this.x - this.radius < 0) {
       this.dx *= -this.elasticity;
       // Keep ball within bounds
-      if (this.x + this.radius > canvas.width) {
-        this.x = canvas.width - this.radius;
+      if (this.x + this.radius > bounds.width) {
+        this.x = bounds.width - this.radius;
       } else if (this.x - this.radius < 0) {
         this.x = this.radius;
       }
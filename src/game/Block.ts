@@ -1,3 +1,7 @@
+import { getBlockType, DEFAULT_BLOCK_TYPE, type BlockType } from './BlockTypes';
+import { formatNumber, type NumberNotation } from './NumberFormat';
+import { ORES, type OreType } from './Ores';
+
 class Block {
   x: number; // Center x
   y: number; // Center y
@@ -8,10 +12,15 @@ class Block {
   color: string;
   row: number;
   col: number;
-  type: 'normal' | 'bitBooster' | 'explosive' | 'cashBooster';
+  type: BlockType;
   typeRolled: boolean; // Whether this block has been checked for special type
+  frozen: boolean; // Hit by a freeze block, breaks on the next hit
+  armor: number; // Hits dealing less damage than this are ignored (0 = unarmored)
+  unbreakable: boolean; // Bedrock, balls have to go around it
+  ore: OreType | null; // Resource dropped into the inventory when destroyed
+  bossId: number | null; // Cell of a boss layer, damage goes to the boss's shared HP pool
 
-  constructor(x: number, y: number, radius: number, hp: number, value: number, color: string, row: number, col: number, type: 'normal' | 'bitBooster' | 'explosive' | 'cashBooster' = 'normal') {
+  constructor(x: number, y: number, radius: number, hp: number, value: number, color: string, row: number, col: number, type: BlockType = DEFAULT_BLOCK_TYPE) {
     this.x = x;
     this.y = y;
     this.radius = radius;
@@ -23,9 +32,14 @@ class Block {
     this.col = col;
     this.type = type;
     this.typeRolled = false;
+    this.frozen = false;
+    this.armor = 0;
+    this.unbreakable = false;
+    this.ore = null;
+    this.bossId = null;
   }
 
-  draw(context: CanvasRenderingContext2D, offsetY: number = 0, minX: number = -Infinity, maxX: number = Infinity, showHp: boolean = true) {
+  draw(context: CanvasRenderingContext2D, offsetY: number = 0, minX: number = -Infinity, maxX: number = Infinity, showHp: boolean = true, notation?: NumberNotation) {
     const { x, y, radius, color } = this;
     const drawY = y - offsetY;
 
@@ -50,48 +64,67 @@ class Block {
     context.lineWidth = 2;
     context.stroke();
 
-    // Special block glowing outlines
-    if (this.type === 'bitBooster') {
-      // Draw multiple strokes for glow effect
+    // Boss cell: glowing crimson plating, HP lives in the HUD bar
+    if (this.bossId !== null) {
       context.save();
-      context.lineWidth = 6;
-      context.strokeStyle = 'rgba(255, 165, 0, 0.5)'; // Outer glow
-      context.stroke();
-      context.lineWidth = 4;
-      context.strokeStyle = '#FF8C00'; // Main orange border
+      context.lineWidth = 5;
+      context.strokeStyle = 'rgba(255, 40, 90, 0.6)';
       context.stroke();
       context.lineWidth = 2;
-      context.strokeStyle = '#FFD700'; // Inner bright line
+      context.strokeStyle = '#ff6f91';
       context.stroke();
       context.restore();
-    } else if (this.type === 'explosive') {
-      // Draw multiple strokes for glow effect
+      return;
+    }
+
+    // Bedrock: rough inner edge, no damage or HP to show
+    if (this.unbreakable) {
       context.save();
-      context.lineWidth = 6;
-      context.strokeStyle = 'rgba(255, 0, 0, 0.5)'; // Outer glow
-      context.stroke();
       context.lineWidth = 4;
-      context.strokeStyle = '#FF0000'; // Main red border
+      context.strokeStyle = '#222';
+      context.stroke();
+      context.lineWidth = 1;
+      context.strokeStyle = '#777';
+      context.stroke();
+      context.restore();
+      return;
+    }
+
+    // Armored: steel plating outline
+    if (this.armor > 0) {
+      context.save();
+      context.lineWidth = 5;
+      context.strokeStyle = '#607D8B';
       context.stroke();
       context.lineWidth = 2;
-      context.strokeStyle = '#FF6666'; // Inner bright line
+      context.strokeStyle = '#CFD8DC';
       context.stroke();
       context.restore();
-    } else if (this.type === 'cashBooster') {
+    }
+
+    // Special block glowing outlines
+    const glow = getBlockType(this.type).glow;
+    if (glow) {
       // Draw multiple strokes for glow effect
       context.save();
       context.lineWidth = 6;
-      context.strokeStyle = 'rgba(0, 255, 0, 0.5)'; // Outer glow
+      context.strokeStyle = glow.outer; // Outer glow
       context.stroke();
       context.lineWidth = 4;
-      context.strokeStyle = '#00CC00'; // Main green border
+      context.strokeStyle = glow.main; // Main border
       context.stroke();
       context.lineWidth = 2;
-      context.strokeStyle = '#66FF66'; // Inner bright line
+      context.strokeStyle = glow.inner; // Inner bright line
       context.stroke();
       context.restore();
     }
 
+    // Frozen tint
+    if (this.frozen) {
+      context.fillStyle = 'rgba(180, 230, 255, 0.45)';
+      context.fill();
+    }
+
     // Damage overlay
     const damageRatio = 1 - (this.hp / this.maxHp);
     if (damageRatio > 0) {
@@ -99,6 +132,21 @@ class Block {
       context.fill();
     }
     
+    // Ore nuggets
+    if (this.ore) {
+      context.save();
+      context.fillStyle = ORES[this.ore].color;
+      context.strokeStyle = 'rgba(0,0,0,0.5)';
+      context.lineWidth = 1;
+      for (const [ox, oy] of [[-0.45, -0.3], [0.4, -0.2], [-0.1, 0.45]]) {
+        context.beginPath();
+        context.arc(x + ox * radius, drawY + oy * radius, radius * 0.12, 0, Math.PI * 2);
+        context.fill();
+        context.stroke();
+      }
+      context.restore();
+    }
+
     // HP Text
     // Only draw if center is within bounds (with a small buffer so text doesn't clip awkwardly)
     if (showHp && this.radius > 15 && x > minX + 10 && x < maxX - 10) {
@@ -106,11 +154,22 @@ class Block {
         context.font = `${Math.floor(this.radius/2.5)}px Arial`;
         context.textAlign = 'center';
         context.textBaseline = 'middle';
-        context.fillText(Math.ceil(this.hp).toString(), x, drawY);
+        context.fillText(formatNumber(Math.ceil(this.hp), notation), x, drawY);
+
+        // Damage needed to dent the armor
+        if (this.armor > 0) {
+            context.fillStyle = '#CFD8DC';
+            context.font = `${Math.floor(this.radius/4)}px Arial`;
+            context.fillText(`ARMOR ${this.armor}`, x, drawY + this.radius / 2.5);
+        }
     }
   }
 
-  takeDamage(amount: number): boolean {
+  // armorPiercing lowers the armor threshold this hit has to beat
+  takeDamage(amount: number, armorPiercing: number = 0): boolean {
+    // Bedrock never breaks and armor shrugs off hits below its threshold
+    if (this.unbreakable || amount < this.armor - armorPiercing) return false;
+
     this.hp -= amount;
     return this.hp <= 0;
   }
@@ -0,0 +1,77 @@
+import Block from './Block';
+
+/**
+ * Blocks keyed by hex row, then column.
+ * Neighbour lookups are O(1) and collision/draw passes only visit the rows they need.
+ */
+class BlockGrid {
+  private rows: Map<number, Map<number, Block>> = new Map();
+  private count: number = 0;
+
+  get size(): number {
+      return this.count;
+  }
+
+  get(row: number, col: number): Block | undefined {
+      return this.rows.get(row)?.get(col);
+  }
+
+  // Adds a block, replacing any block already at the same row/col
+  add(block: Block) {
+      let row = this.rows.get(block.row);
+      if (!row) {
+          row = new Map();
+          this.rows.set(block.row, row);
+      }
+      if (!row.has(block.col)) this.count++;
+      row.set(block.col, block);
+  }
+
+  remove(block: Block): boolean {
+      const row = this.rows.get(block.row);
+      if (!row || row.get(block.col) !== block) return false;
+
+      row.delete(block.col);
+      if (row.size === 0) this.rows.delete(block.row);
+      this.count--;
+      return true;
+  }
+
+  // Removes a whole row and returns how many blocks it held
+  removeRow(row: number): number {
+      const cols = this.rows.get(row);
+      if (!cols) return 0;
+
+      this.rows.delete(row);
+      this.count -= cols.size;
+      return cols.size;
+  }
+
+  clear() {
+      this.rows.clear();
+      this.count = 0;
+  }
+
+  // Blocks in a single row, as a snapshot that is safe to mutate the grid while iterating
+  getRow(row: number): Block[] {
+      const cols = this.rows.get(row);
+      return cols ? Array.from(cols.values()) : [];
+  }
+
+  // Blocks with minRow <= row <= maxRow
+  *inRows(minRow: number, maxRow: number): Generator<Block> {
+      for (let r = minRow; r <= maxRow; r++) {
+          const cols = this.rows.get(r);
+          if (!cols) continue;
+          yield* cols.values();
+      }
+  }
+
+  *[Symbol.iterator](): Generator<Block> {
+      for (const cols of this.rows.values()) {
+          yield* cols.values();
+      }
+  }
+}
+
+export default BlockGrid;
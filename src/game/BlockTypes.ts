@@ -0,0 +1,99 @@
+import type Block from './Block';
+import type Simulation from './Simulation';
+
+// Outline strokes drawn around a special block, from the widest to the thinnest
+export interface GlowPalette {
+    outer: string;
+    main: string;
+    inner: string;
+}
+
+export interface BlockTypeDefinition {
+    saveKey: string; // Written to SimulationState.blocks[].type, never rename once shipped
+    spawnChance?: (sim: Simulation) => number; // Chance for a playable block to roll this type, omitted for the fallback type
+    glow?: GlowPalette;
+    onDestroy?: (sim: Simulation, block: Block, processedBlocks?: Set<string>) => void;
+}
+
+/**
+ * Every block kind in one place.
+ * Rolls walk this table in order, so new specials go at the end to keep existing seeds rolling the same way.
+ */
+export const BLOCK_TYPES = {
+    normal: {
+        saveKey: 'normal'
+    },
+    bitBooster: {
+        saveKey: 'bitBooster',
+        spawnChance: sim => sim.upgrades.bitBoosters * 0.01, // 1% per level
+        glow: { outer: 'rgba(255, 165, 0, 0.5)', main: '#FF8C00', inner: '#FFD700' },
+        // Refresh timer (no stacking, just reset)
+        onDestroy: sim => { sim.bitBoosterTimer = sim.BIT_BOOSTER_DURATION; }
+    },
+    explosive: {
+        saveKey: 'explosive',
+        spawnChance: sim => sim.upgrades.explosiveBlocks * 0.01,
+        glow: { outer: 'rgba(255, 0, 0, 0.5)', main: '#FF0000', inner: '#FF6666' },
+        // Chain explosion - destroy this block's neighbors too
+        onDestroy: (sim, block, processedBlocks) => sim.destroyAdjacentBlocks(block, processedBlocks)
+    },
+    cashBooster: {
+        saveKey: 'cashBooster',
+        spawnChance: sim => sim.upgrades.cashBoosters * 0.01,
+        glow: { outer: 'rgba(0, 255, 0, 0.5)', main: '#00CC00', inner: '#66FF66' },
+        onDestroy: sim => { sim.cashBoosterTimer = sim.CASH_BOOSTER_DURATION; }
+    },
+    lightning: {
+        saveKey: 'lightning',
+        spawnChance: sim => sim.upgrades.lightningBlocks * 0.01,
+        glow: { outer: 'rgba(255, 255, 0, 0.5)', main: '#FFEE00', inner: '#FFFFAA' },
+        onDestroy: (sim, block, processedBlocks) => sim.strikeRow(block, processedBlocks)
+    },
+    multiball: {
+        saveKey: 'multiball',
+        spawnChance: sim => sim.upgrades.multiballBlocks * 0.01,
+        glow: { outer: 'rgba(0, 150, 255, 0.5)', main: '#0096FF', inner: '#66CCFF' },
+        onDestroy: (sim, block) => sim.spawnTemporaryBall(block.x, block.y)
+    },
+    magnet: {
+        saveKey: 'magnet',
+        spawnChance: sim => sim.upgrades.magnetBlocks * 0.01,
+        glow: { outer: 'rgba(200, 0, 255, 0.5)', main: '#B000FF', inner: '#DD88FF' },
+        onDestroy: (sim, block) => sim.startMagnet(block.x)
+    },
+    freeze: {
+        saveKey: 'freeze',
+        spawnChance: sim => sim.upgrades.freezeBlocks * 0.01,
+        glow: { outer: 'rgba(180, 240, 255, 0.5)', main: '#A0E8FF', inner: '#FFFFFF' },
+        onDestroy: (sim, block) => sim.freezeNeighbours(block)
+    }
+} satisfies Record<string, BlockTypeDefinition>;
+
+export type BlockType = keyof typeof BLOCK_TYPES;
+
+export const DEFAULT_BLOCK_TYPE: BlockType = 'normal';
+
+const BLOCK_TYPE_IDS = Object.keys(BLOCK_TYPES) as BlockType[];
+
+export const getBlockType = (type: BlockType): BlockTypeDefinition => BLOCK_TYPES[type];
+
+// Maps a saved type key back to its block type, unknown keys load as normal blocks
+export const blockTypeFromSaveKey = (saveKey: string | undefined): BlockType =>
+    BLOCK_TYPE_IDS.find(id => getBlockType(id).saveKey === saveKey) ?? DEFAULT_BLOCK_TYPE;
+
+// Current spawn chance of every special type, in roll order
+export const getSpawnChances = (sim: Simulation): { type: BlockType; chance: number }[] =>
+    BLOCK_TYPE_IDS.flatMap(id => {
+        const { spawnChance } = getBlockType(id);
+        return spawnChance ? [{ type: id, chance: spawnChance(sim) }] : [];
+    });
+
+// Picks the type a roll in [0, 1) lands on, falling back to normal past the summed chances
+export const pickBlockType = (chances: { type: BlockType; chance: number }[], roll: number): BlockType => {
+    let threshold = 0;
+    for (const { type, chance } of chances) {
+        threshold += chance;
+        if (roll < threshold) return type;
+    }
+    return DEFAULT_BLOCK_TYPE;
+};
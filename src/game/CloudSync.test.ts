@@ -0,0 +1,126 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import CloudSync, { compareProgress, resolveSync } from './CloudSync';
+import { MemorySaveStorage } from './SaveStorage';
+import { makeSave } from './testSaves';
+
+const at = (lastActiveTime: number, prestigeCount: number = 0) => makeSave({ lastActiveTime, prestigeCount });
+
+describe('resolveSync', () => {
+    it('uploads or downloads when only one side has a save', () => {
+        expect(resolveSync(null, null, 0)).toBe('inSync');
+        expect(resolveSync(at(100), null, 0)).toBe('push');
+        expect(resolveSync(null, at(100), 0)).toBe('pull');
+    });
+
+    it('picks the only side that changed since the last sync', () => {
+        expect(resolveSync(at(100), at(100), 100)).toBe('inSync');
+        expect(resolveSync(at(200), at(100), 100)).toBe('push');
+        expect(resolveSync(at(100), at(200), 100)).toBe('pull');
+    });
+
+    it('flags a conflict when both sides changed, or two saves meet for the first time', () => {
+        expect(resolveSync(at(200), at(300), 100)).toBe('conflict');
+        expect(resolveSync(at(200), at(300), 0)).toBe('conflict');
+    });
+});
+
+describe('compareProgress', () => {
+    it('ranks Core Resets over prestiges over depth', () => {
+        expect(compareProgress(makeSave({ cores: 1 }), makeSave({ prestigeCount: 9, runMaxDepth: 900 }))).toBeGreaterThan(0);
+        expect(compareProgress(makeSave({ prestigeCount: 1 }), makeSave({ runMaxDepth: 900 }))).toBeGreaterThan(0);
+        expect(compareProgress(makeSave({ runMaxDepth: 10 }), makeSave({ runMaxDepth: 20 }))).toBeLessThan(0);
+        expect(compareProgress(makeSave(), makeSave())).toBe(0);
+    });
+});
+
+describe('CloudSync against the stand-in server', () => {
+    let server: ChildProcess;
+    let endpoint = '';
+    let player = 0;
+    const newEndpoint = () => `${endpoint}/saves/player${++player}`; // A fresh remote for each test
+
+    beforeAll(async () => {
+        server = spawn(process.execPath, ['scripts/sync-server.js', '0']);
+        const origin = await new Promise<string>((resolve, reject) => {
+            server.stdout!.on('data', (chunk: Buffer) => {
+                const match = /listening on (\S+)/.exec(chunk.toString());
+                if (match) resolve(match[1]);
+            });
+            server.on('error', reject);
+        });
+        endpoint = origin;
+    });
+
+    afterAll(() => {
+        server.kill();
+    });
+
+    it('hands a save from one device to another', async () => {
+        const url = newEndpoint();
+        const phone = new CloudSync(url, new MemorySaveStorage());
+        const laptop = new CloudSync(url, new MemorySaveStorage());
+
+        expect(await phone.fetchSave(0)).toBeNull();
+        expect(await phone.push(0, at(100, 1))).toBe('saved');
+        expect(phone.getSyncedAt(0)).toBe(100);
+
+        const remote = await laptop.fetchSave(0);
+        expect(remote?.data).toEqual(at(100, 1));
+        expect(remote?.etag).toBeTruthy();
+        expect(await laptop.fetchSave(1)).toBeNull(); // Slots are separate resources
+    });
+
+    it('rejects an upload based on an outdated version', async () => {
+        const url = newEndpoint();
+        const phone = new CloudSync(url, new MemorySaveStorage());
+        const laptop = new CloudSync(url, new MemorySaveStorage());
+        await phone.push(0, at(100));
+
+        const remote = (await laptop.fetchSave(0))!;
+        laptop.markSynced(0, remote.etag, remote.data.lastActiveTime);
+        expect(await laptop.push(0, at(200))).toBe('saved');
+        expect(await phone.push(0, at(150))).toBe('conflict');
+
+        // Settling on the fetched version as the base lets the upload through
+        const latest = (await phone.fetchSave(0))!;
+        phone.markSynced(0, latest.etag, latest.data.lastActiveTime);
+        expect(await phone.push(0, at(300))).toBe('saved');
+    });
+
+    it('uploads again once the base is reset after the remote copy was deleted', async () => {
+        const url = newEndpoint();
+        const phone = new CloudSync(url, new MemorySaveStorage());
+        const laptop = new CloudSync(url, new MemorySaveStorage());
+        await phone.push(0, at(100));
+        await laptop.remove(0);
+
+        expect(await phone.push(0, at(200))).toBe('conflict'); // Its ETag is gone with the remote copy
+        expect(await phone.fetchSave(0)).toBeNull();
+        phone.markSynced(0, null, 0);
+        expect(await phone.push(0, at(200))).toBe('saved');
+    });
+
+    it('collapses uploads queued while one is running', async () => {
+        const sync = new CloudSync(newEndpoint(), new MemorySaveStorage());
+        const first = sync.push(0, at(100));
+        await Promise.resolve(); // Let the first upload start
+        const results = await Promise.all([first, sync.push(0, at(200)), sync.push(0, at(300))]);
+        expect(results).toEqual(['saved', 'superseded', 'saved']);
+        expect((await sync.fetchSave(0))?.data.lastActiveTime).toBe(300);
+    });
+
+    it('keeps its sync state per endpoint', async () => {
+        const storage = new MemorySaveStorage();
+        const url = newEndpoint();
+        await new CloudSync(url, storage).push(0, at(100));
+        expect(new CloudSync(url, storage).getSyncedAt(0)).toBe(100);
+        expect(new CloudSync(newEndpoint(), storage).getSyncedAt(0)).toBe(0);
+    });
+
+    it('marks itself offline when the endpoint is unreachable', async () => {
+        const sync = new CloudSync('http://127.0.0.1:1/saves', new MemorySaveStorage());
+        await expect(sync.fetchSave(0)).rejects.toThrow();
+        expect(sync.online).toBe(false);
+    });
+});
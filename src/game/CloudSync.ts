@@ -0,0 +1,155 @@
+import { migrateSave, type SaveData } from './SaveSchema';
+import type { SaveStorage } from './SaveStorage';
+
+/**
+ * Optional copy of each save slot on an HTTP endpoint, one resource per slot at `<endpoint>/<slot number>`:
+ *   GET  -> 200 with the SaveData as JSON and an ETag, or 404 when the slot was never uploaded
+ *   PUT  -> JSON body, sent with If-Match (last ETag seen) or If-None-Match: * (first upload);
+ *           412 when someone else uploaded in between
+ *   DELETE -> when the slot is deleted here, so it doesn't come back on the next pull
+ * `npm run sync-server` runs a stand-in.
+ * Every failure leaves the local save untouched, so the game plays on offline.
+ */
+
+// Remote copy of a slot and the version tag to send back with the next upload
+export interface RemoteSave {
+    data: SaveData;
+    etag: string | null;
+}
+
+// What a slot needs after comparing its local save with the remote one
+export type SyncDecision = 'inSync' | 'push' | 'pull' | 'conflict';
+
+export type PushResult = 'saved' | 'conflict' | 'superseded'; // superseded = a newer save was queued behind it
+
+// Last version both sides agreed on, per slot
+interface SlotSyncState {
+    etag: string | null;
+    syncedAt: number; // lastActiveTime of that version (0 = never synced)
+}
+
+interface SyncStateFile {
+    endpoint: string; // State for another endpoint is dropped
+    slots: Record<number, SlotSyncState>;
+}
+
+const SYNC_STATE_KEY = 'gravity_miner_sync';
+const REQUEST_TIMEOUT = 8000;
+
+// Endpoint from the URL (?sync=...) or the build (VITE_SYNC_URL), null when sync is off
+export const getSyncEndpoint = (): string | null => {
+    const param = new URLSearchParams(window.location.search).get('sync');
+    const endpoint = param ?? import.meta.env.VITE_SYNC_URL ?? null;
+    return endpoint ? endpoint.replace(/\/+$/, '') : null;
+};
+
+// Positive when `a` is further along: Core Resets, then prestiges, then depth
+export const compareProgress = (a: SaveData, b: SaveData): number =>
+    (a.cores - b.cores) || (a.prestigeCount - b.prestigeCount) || (a.runMaxDepth - b.runMaxDepth);
+
+/**
+ * A side has changed when it was saved after the last sync; when only one did, it wins.
+ * Both changing (or two saves meeting for the first time) is a conflict for the player to settle.
+ */
+export const resolveSync = (local: SaveData | null, remote: SaveData | null, syncedAt: number): SyncDecision => {
+    if (!remote) return local ? 'push' : 'inSync';
+    if (!local) return 'pull';
+    if (local.lastActiveTime === remote.lastActiveTime) return 'inSync';
+
+    const localChanged = local.lastActiveTime > syncedAt;
+    const remoteChanged = remote.lastActiveTime > syncedAt;
+    if (localChanged && remoteChanged) return 'conflict';
+    if (localChanged) return 'push';
+    if (remoteChanged) return 'pull';
+    return local.lastActiveTime > remote.lastActiveTime ? 'push' : 'pull';
+};
+
+class CloudSync {
+  readonly endpoint: string;
+  online: boolean = true; // False after a request failed to reach the endpoint, until one succeeds
+  private storage: SaveStorage;
+  private state: Record<number, SlotSyncState>;
+  private pending: Map<number, SaveData> = new Map(); // Newest save waiting to upload, per slot
+  private uploads: Promise<unknown> = Promise.resolve(); // Uploads run one at a time, in order
+
+  constructor(endpoint: string, storage: SaveStorage) {
+      this.endpoint = endpoint;
+      this.storage = storage;
+      this.state = this.readState();
+  }
+
+  getSyncedAt(slot: number): number {
+      return this.state[slot]?.syncedAt ?? 0;
+  }
+
+  // Records a version both sides now share; uploads are checked against its ETag
+  markSynced(slot: number, etag: string | null, syncedAt: number) {
+      this.state[slot] = { etag, syncedAt };
+      const file: SyncStateFile = { endpoint: this.endpoint, slots: this.state };
+      this.storage.setItem(SYNC_STATE_KEY, JSON.stringify(file));
+  }
+
+  // The slot's remote save, null when it has none; throws when unreachable or unreadable
+  async fetchSave(slot: number): Promise<RemoteSave | null> {
+      const response = await this.request(slot, { method: 'GET', cache: 'no-store' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Sync endpoint answered ${response.status}`);
+      return { data: migrateSave(await response.json()), etag: response.headers.get('ETag') };
+  }
+
+  // Queues an upload; saves made while one is running collapse into the newest
+  push(slot: number, data: SaveData): Promise<PushResult> {
+      this.pending.set(slot, data);
+      const upload = this.uploads.then(() => {
+          if (this.pending.get(slot) !== data) return 'superseded' as const;
+          this.pending.delete(slot);
+          return this.upload(slot, data);
+      });
+      this.uploads = upload.catch(() => undefined);
+      return upload;
+  }
+
+  // Deletes the slot's remote save; a missing one counts as deleted
+  async remove(slot: number) {
+      this.pending.delete(slot);
+      const response = await this.request(slot, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw new Error(`Sync endpoint answered ${response.status}`);
+      this.markSynced(slot, null, 0);
+  }
+
+  private async upload(slot: number, data: SaveData): Promise<PushResult> {
+      const etag = this.state[slot]?.etag ?? null;
+      const response = await this.request(slot, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' }) },
+          body: JSON.stringify(data)
+      });
+      if (response.status === 412) return 'conflict';
+      if (!response.ok) throw new Error(`Sync endpoint answered ${response.status}`);
+      this.markSynced(slot, response.headers.get('ETag'), data.lastActiveTime);
+      return 'saved';
+  }
+
+  private async request(slot: number, init: RequestInit): Promise<Response> {
+      try {
+          const response = await fetch(`${this.endpoint}/${slot + 1}`, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+          this.online = true;
+          return response;
+      } catch (e) {
+          this.online = false;
+          throw e;
+      }
+  }
+
+  private readState(): Record<number, SlotSyncState> {
+      try {
+          const file: Partial<SyncStateFile> = JSON.parse(this.storage.getItem(SYNC_STATE_KEY) ?? '{}');
+          return file.endpoint === this.endpoint ? file.slots ?? {} : {};
+      } catch (e) {
+          console.error("[Sync] Failed to read sync state:", e);
+          return {};
+      }
+  }
+}
+
+export default CloudSync;
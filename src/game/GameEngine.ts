@@ -1,6 +1,18 @@
-import Ball from './Ball';
-import Block from './Block';
+import AutoPrestige, { AUTO_PRESTIGE_BENEFITS, AUTO_PRESTIGE_DEPTHS, MAX_PRESTIGE_LOG, type PrestigeLogEntry } from './AutoPrestige';
+import AutoBuyer, { AUTO_BUY_STRATEGIES, AUTO_BUY_STRATEGY_IDS, LINK_DISTANCES, MAX_AUTO_BUY_LINKS } from './AutoBuyer';
+import Simulation, { MONEY_UPGRADES, ORE_UPGRADE_MAX_LEVEL, PURCHASE_AMOUNTS, SUB_STEP_OPTIONS, isOreUpgrade, type BlockUpgradeType, type OreUpgradeType, type PurchaseAmount, type UpgradeType } from './Simulation';
+import CloudSync, { compareProgress, resolveSync, type RemoteSave } from './CloudSync';
+import { parseMoney } from './Money';
+import { DEFAULT_NOTATION, NUMBER_NOTATIONS, formatNumber, nextNotation } from './NumberFormat';
+import { ORES, ORE_TYPES, formatResourceCost } from './Ores';
+import { PRESTIGE_NODES, PRESTIGE_NODE_IDS, type PrestigeNode } from './PrestigeTree';
+import { ReplayRecorder, type ReplayFile } from './Replay';
+import { decodeSave, encodeSave, exportSave, getSavePreview, importSave } from './SaveCodec';
+import { NewerSaveError, SAVE_VERSION, type SaveData } from './SaveSchema';
+import SaveSlots, { MAX_SLOT_NAME_LENGTH, SAVE_SLOT_COUNT } from './SaveSlots';
+import type { SaveStorage } from './SaveStorage';
 import SoundManager from './SoundManager';
+import { STRATA, type Stratum } from './Strata';
 
 interface MenuLayout {
     scale: number;
@@ -16,100 +28,83 @@ interface MenuLayout {
     titleY: number;
     resumeBtnY: number;
     shopBtnY: number;
+    autoBuyBtnY: number;
+    autoPrestigeBtnY: number;
+    prestigeTreeBtnY: number;
+    coreResetBtnY: number;
     settingsBtnY: number;
     saveBtnY: number;
+    transferBtnY: number;
     backBtnY: number;
 }
 
-interface SaveData {
-    money: number;
-    settings: {
-        showHp: boolean;
-        volume: number;
-        sfxBlocks: boolean;
-        sfxBounce: boolean;
-    };
-    upgrades: {
-        damage: number;
-        gravity: number;
-        efficiency: number;
-        bitBoosters: number;
-        explosiveBlocks: number;
-        cashBoosters: number;
-    };
-    bitBoosterTimer: number;
-    cashBoosterTimer?: number;
-    prestigeCount: number;
-    offsetY: number;
-    maxRowGenerated: number;
-    rowHeight: number;
-    canvasWidth: number;
-    canvasHeight: number;
-    lastActiveTime?: number; // Timestamp when game was last active
-    balls: Array<{
-        x: number;
-        y: number;
-        dx: number;
-        dy: number;
-        radius: number;
-        damage?: number;
-    }>;
-    blocks: Array<{
-        x: number;
-        y: number;
-        row: number;
-        col: number;
-        hp: number;
-        maxHp: number;
-        value: number;
-        color: string;
-        radius: number;
-        type: 'normal' | 'bitBooster' | 'explosive' | 'cashBooster';
-        typeRolled?: boolean;
-    }>;
+// Clickable row in the automation menus, laid out once and shared by drawing and hit-testing
+interface MenuButton {
+    id: string;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    label: string;
+    color: string;
+    onClick: () => void;
 }
 
+// Display names for notifications, the shop and the auto-buyer
+const UPGRADE_NAMES: Record<UpgradeType, string> = {
+    damage: 'Drill Bit',
+    gravity: 'Engine',
+    efficiency: 'Scanner',
+    bitBoosters: 'Bit Boosters',
+    explosiveBlocks: 'Explosive Blocks',
+    cashBoosters: 'Cash Boosters',
+    lightningBlocks: 'Lightning Blocks',
+    multiballBlocks: 'Multiball Blocks',
+    magnetBlocks: 'Magnet Blocks',
+    freezeBlocks: 'Freeze Blocks',
+    armorPiercing: 'Armor Piercing',
+    prospecting: 'Prospector',
+    refinery: 'Refinery'
+};
+
 class GameEngine {
-  balls: Ball[]; // Array of balls (starts with 1, increases with prestige)
-  blocks: Block[];
-  canvasWidth: number;
-  canvasHeight: number;
-  money: number = 0;
-  
+  sim: Simulation; // Headless world state (balls, blocks, money, upgrades, timers)
+
   gameState: 'MENU' | 'PLAYING' | 'PAUSED' = 'MENU';
-  menuState: 'MAIN' | 'SETTINGS' | 'SHOP' = 'MAIN'; // Sub-menu state for Pause/Title
+  menuState: 'MAIN' | 'SETTINGS' | 'SHOP' | 'AUTOBUY' | 'AUTOPRESTIGE' | 'PRESTIGE' | 'CORE' | 'TRANSFER' = 'MAIN'; // Sub-menu state for Pause/Title
   activeButton: string | null = null; // Track active button for animation
   isHoveringButton: boolean = false; // Track hover state for cursor
   isResizing: boolean = false; // Track resize state
   shopOpenedFromHUD: boolean = false; // Track if shop was opened via HUD click
+  purchaseAmount: PurchaseAmount = 1; // Levels per click on money upgrades (x1 / x10 / x100 / MAX)
+  autoBuyer: AutoBuyer = new AutoBuyer(); // Rule-based upgrade buying, unlocked by the first prestige
+  autoPrestige: AutoPrestige = new AutoPrestige(); // Depth/benefit triggered prestige with a countdown
+  prestigeLog: PrestigeLogEntry[] = []; // Past prestiges, newest first
+  runStartedAt: number = Date.now();
+  confirmingCoreReset: boolean = false; // Core Reset screen is asking for confirmation
+  pendingImport: SaveData | null = null; // Checked import waiting for the player to confirm it
+  transferMessage: string = ''; // Result of the last export/import action, shown on the transfer screen
 
-  // Upgrades State
-  upgrades = {
-      damage: 1,
-      gravity: 1,
-      efficiency: 1,
-      bitBoosters: 0,      // 0-10 levels (0 = locked)
-      explosiveBlocks: 0,  // 0-10 levels (0 = locked)
-      cashBoosters: 0      // 0-10 levels (0 = locked)
-  };
-
-  // Camera/Scroll offset
-  offsetY: number = -300; 
-  
-  // Level Generation State
-  maxRowGenerated: number = 0;
-  rowHeight: number = 0;
-
-  // Geometry
-  holeWidth: number = 0;
-  holeLeft: number = 0;
-  holeRight: number = 0;
-  
   // Visuals
-  dirtPattern: CanvasPattern | null = null;
+  wallPatterns: Map<string, CanvasPattern> = new Map(); // Keyed by stratum id
+  currentStratum: Stratum | null = null; // Last stratum the deepest ball was in
+  screenShakeTimer: number = 0; // Camera shake after a boss falls
+  readonly SCREEN_SHAKE_DURATION: number = 600;
   
-  // Save State Key
-  readonly SAVE_KEY = 'gravity_miner_save_v1';
+  // Save Slots
+  saveSlots: SaveSlots;
+  activeSlot: number = 0; // Slot saveGame/loadGame use, picked on the title screen
+  confirmingDeleteSlot: number | null = null; // Slot whose DELETE was pressed once on the title screen
+  newGameSeed?: number; // Seed for a fresh run, from the constructor
+  lockedSlots: Set<number> = new Set(); // Slots holding a save from a newer version of the game: never loaded or saved over
+  slotNotices: Map<number, string> = new Map(); // Why a slot's save couldn't be loaded, shown in its title screen row
+
+  // Cloud Sync (optional, see CloudSync)
+  cloudSync: CloudSync | null = null;
+  syncConflict: { slot: number; local: SaveData; remote: RemoteSave } | null = null; // Both sides changed, waiting for the player's pick
+  syncOnline: boolean = true; // Last reachability the player was told about
+  lastSyncedSlot: number | null = null; // Slot last compared with its remote copy this session
+  readonly SYNC_RETRIES: number = 2; // Fresh comparisons after a rejected upload before waiting for the next save
 
   // Notification System
   notificationText: string = "";
@@ -119,147 +114,127 @@ class GameEngine {
   autoSaveTimer: number = 0;
   readonly AUTO_SAVE_INTERVAL: number = 5 * 60 * 1000; // 5 Minutes
 
-  // Bit Booster Effect State
-  bitBoosterTimer: number = 0;
-  readonly BIT_BOOSTER_DURATION: number = 5000; // 5 seconds
-
-  // Cash Booster Effect State
-  cashBoosterTimer: number = 0;
-  readonly CASH_BOOSTER_DURATION: number = 5000; // 5 seconds
-
   // Prestige System
-  prestigeCount: number = 0; // Number of prestiges (starts at 0 = 1 ball, 1 = 2 balls, etc.)
   prestigeButtonHovered: boolean = false; // Track if prestige button is hovered
 
   // Offline Progress
   lastActiveTime: number = Date.now(); // Timestamp when game was last active
 
+  // Replay Recording (toggled with the R key while in game)
+  recorder: ReplayRecorder | null = null;
+
   // Settings
   settings = {
       showHp: true,
       volume: 0.5,
       sfxBlocks: true,
-      sfxBounce: true
+      sfxBounce: true,
+      numberFormat: DEFAULT_NOTATION
   };
 
-  constructor(width: number, height: number) {
-    this.canvasWidth = width;
-    this.canvasHeight = height;
-    
-    // Define Hole Geometry
-    this.updateGeometry();
-
-    this.blocks = [];
-    
-    // Calc constants for generation based on Hole Width
-    const numColumns = 10;
-    const dx = this.holeWidth / (numColumns - 1);
-    const radius = dx / Math.sqrt(3); // Base radius of block hex
-    this.rowHeight = radius * 1.5;
-
-    // Initialize Ball(s) - start with one ball
-    const groundY = this.getGroundY();
-    const hoverDist = Math.min(this.canvasHeight * 0.3, 250);
-
-    this.balls = [new Ball(
-      width / 2,
-      groundY - hoverDist,
-      radius * 0.3,  // Dynamic ball radius (reduced by 50%)
-      '#ff4444',
-      (Math.random() - 0.5) * 4,
-      0,
-      radius * 0.02, // Dynamic Gravity
-      0.98
-    )];
-    
-    // Set initial offset to center the view
-    this.offsetY = groundY - (this.canvasHeight * 0.75);
-
+  // seed only applies to a fresh run; an existing save keeps its own seed
+  constructor(width: number, height: number, storage: SaveStorage, seed?: number, syncEndpoint?: string | null) {
+    this.saveSlots = new SaveSlots(storage);
+    if (syncEndpoint) this.cloudSync = new CloudSync(syncEndpoint, storage);
+    this.newGameSeed = seed;
+    this.sim = new Simulation(width, height, seed);
+    this.sim.events = {
+        blockDestroyed: () => SoundManager.playPop(),
+        bounce: (intensity) => SoundManager.playBounce(intensity),
+        bossDefeated: (_boss, firstKill) => {
+            SoundManager.playPop();
+            this.screenShakeTimer = this.SCREEN_SHAKE_DURATION;
+            this.showNotification(firstKill
+                ? `Boss defeated! Trophy: +${Math.round(this.sim.TROPHY_VALUE_BONUS * 100)}% value`
+                : "Boss defeated!");
+        }
+    };
 
-    // Create Pattern
-    this.initDirtPattern();
+    // Create Patterns
+    this.initWallPatterns();
 
-    // Try to load save for background preview
+    // Try to load the last played slot for background preview
+    this.activeSlot = this.saveSlots.lastSlot;
     if (this.loadGame()) {
         this.gameState = 'MENU';
-    } else {
-        // Initial generation if no save
-        this.generateRows(0, 40);
     }
+    this.syncSlot(this.activeSlot);
   }
   
-  initDirtPattern() {
-      const pCanvas = document.createElement('canvas');
-      pCanvas.width = 64;
-      pCanvas.height = 64;
-      const ctx = pCanvas.getContext('2d');
-      if (!ctx) return;
-
-      // Base
-      ctx.fillStyle = '#5d4037';
-      ctx.fillRect(0, 0, 64, 64);
-
-      // Noise
-      for (let i = 0; i < 40; i++) {
-          const x = Math.random() * 64;
-          const y = Math.random() * 64;
-          const size = Math.random() * 3 + 1;
-          // Dark specks
-          ctx.fillStyle = 'rgba(0,0,0,0.1)';
-          ctx.fillRect(x, y, size, size);
-          
-          // Light specks
-          const x2 = Math.random() * 64;
-          const y2 = Math.random() * 64;
-          ctx.fillStyle = 'rgba(255,255,255,0.05)';
-          ctx.fillRect(x2, y2, size, size);
+  // One speckled wall texture per stratum
+  initWallPatterns() {
+      for (const stratum of STRATA) {
+          const pCanvas = document.createElement('canvas');
+          pCanvas.width = 64;
+          pCanvas.height = 64;
+          const ctx = pCanvas.getContext('2d');
+          if (!ctx) return;
+
+          // Base
+          ctx.fillStyle = stratum.wall.base;
+          ctx.fillRect(0, 0, 64, 64);
+
+          // Noise
+          for (let i = 0; i < 40; i++) {
+              const x = Math.random() * 64;
+              const y = Math.random() * 64;
+              const size = Math.random() * 3 + 1;
+              // Dark specks
+              ctx.fillStyle = stratum.wall.dark;
+              ctx.fillRect(x, y, size, size);
+
+              // Light specks
+              const x2 = Math.random() * 64;
+              const y2 = Math.random() * 64;
+              ctx.fillStyle = stratum.wall.light;
+              ctx.fillRect(x2, y2, size, size);
+          }
+
+          const pattern = ctx.createPattern(pCanvas, 'repeat');
+          if (pattern) this.wallPatterns.set(stratum.id, pattern);
       }
-      
-      this.dirtPattern = ctx.createPattern(pCanvas, 'repeat');
   }
 
-  saveGame(showNotification: boolean = false) {
-      const data = {
-          money: this.money,
+  // World Y where a stratum's first row begins
+  getStratumTopY(index: number): number {
+      return this.sim.getRowStartY() + (STRATA[index].startRow - 0.5) * this.sim.rowHeight;
+  }
+
+  // Fills [x, x + w] with each stratum's wall texture between yMin and yMax (the first stratum extends up to yMin)
+  // boundaryShift moves the stratum boundaries, so a layer drawn under a translate can keep them at their real depth
+  fillStrata(context: CanvasRenderingContext2D, x: number, w: number, yMin: number, yMax: number, boundaryShift: number = 0) {
+      for (let i = 0; i < STRATA.length; i++) {
+          const top = i === 0 ? yMin : Math.max(yMin, this.getStratumTopY(i) - boundaryShift);
+          const bottom = Math.min(yMax, i + 1 < STRATA.length ? this.getStratumTopY(i + 1) - boundaryShift : yMax);
+          if (bottom <= top) continue;
+
+          context.fillStyle = this.wallPatterns.get(STRATA[i].id) || STRATA[i].wall.base;
+          context.fillRect(x, top, w, bottom - top);
+      }
+  }
+
+  getSaveData(): SaveData {
+      return {
+          version: SAVE_VERSION,
+          ...this.sim.getState(),
           settings: this.settings,
-          upgrades: this.upgrades,
-          bitBoosterTimer: this.bitBoosterTimer,
-          cashBoosterTimer: this.cashBoosterTimer,
-          prestigeCount: this.prestigeCount,
-          offsetY: this.offsetY,
-          maxRowGenerated: this.maxRowGenerated,
-          rowHeight: this.rowHeight,
-          canvasWidth: this.canvasWidth,
-          canvasHeight: this.canvasHeight,
-          lastActiveTime: Date.now(),
-          balls: this.balls.map(ball => ({
-              x: ball.x,
-              y: ball.y,
-              dx: ball.dx,
-              dy: ball.dy,
-              radius: ball.radius,
-              damage: ball.damage
-          })),
-          blocks: this.blocks.map(b => ({
-              x: b.x,
-              y: b.y,
-              row: b.row,
-              col: b.col,
-              hp: b.hp,
-              maxHp: b.maxHp,
-              value: b.value,
-              color: b.color,
-              radius: b.radius,
-              type: b.type,
-              typeRolled: b.typeRolled
-          }))
+          autoBuyer: this.autoBuyer.config,
+          autoPrestige: this.autoPrestige.config,
+          prestigeLog: this.prestigeLog,
+          runStartedAt: this.runStartedAt,
+          lastActiveTime: Date.now()
       };
+  }
+
+  saveGame(showNotification: boolean = false) {
+      if (this.lockedSlots.has(this.activeSlot)) return; // Never overwrite a newer version's save
 
       try {
           // Encode to Base64 to obfuscate
-          const json = JSON.stringify(data);
-          const encoded = btoa(json);
-          localStorage.setItem(this.SAVE_KEY, encoded);
+          const data = this.getSaveData();
+          this.saveSlots.write(this.activeSlot, encodeSave(data), data);
+          // Uploads wait while the player settles a conflict, the winner gets pushed then
+          if (!this.syncConflict) this.pushToCloud(this.activeSlot, data);
           console.log("Game Saved!");
           if (showNotification) {
               this.showNotification("Game Saved!");
@@ -272,139 +247,162 @@ class GameEngine {
       }
   }
 
+  // Prints a number in the notation picked in settings
+  format(value: number | bigint): string {
+      return formatNumber(value, this.settings.numberFormat);
+  }
+
+  // Multipliers keep two decimals until they are large enough for the chosen notation
+  formatMultiplier(value: number): string {
+      return value < 1000 ? value.toFixed(2) : this.format(value);
+  }
+
   showNotification(text: string) {
       this.notificationText = text;
       this.notificationTimer = 2000; // 2 seconds
   }
 
-  loadGame(): boolean {
-      const encoded = localStorage.getItem(this.SAVE_KEY);
-      if (!encoded) return false;
-      
-      try {
-          // Decode from Base64
-          const json = atob(encoded);
-          const data: SaveData = JSON.parse(json);
-          
-          this.money = data.money;
-          if (data.settings) {
-              this.settings = { ...this.settings, ...data.settings };
-          }
-          if (data.upgrades) {
-              // Merge with defaults for backwards compatibility
-              this.upgrades = {
-                  damage: data.upgrades.damage || 1,
-                  gravity: data.upgrades.gravity || 1,
-                  efficiency: data.upgrades.efficiency || 1,
-                  bitBoosters: data.upgrades.bitBoosters || 0,
-                  explosiveBlocks: data.upgrades.explosiveBlocks || 0,
-                  cashBoosters: data.upgrades.cashBoosters || 0
-              };
-
-              // Apply Gravity Upgrade to all balls (this runs before balls are loaded)
-              const radius = this.rowHeight / 1.5;
-              const gravityMult = 1 + (this.upgrades.gravity - 1) * 0.1;
-              // Note: Balls will have gravity applied after they're loaded below
-              const targetGravity = radius * 0.02 * gravityMult;
-              // Apply to existing balls if any
-              for (const ball of this.balls) {
-                  ball.gravity = targetGravity;
-              }
-          }
+  // Loads the active slot's save, or an already checked import in its place
+  loadGame(imported?: SaveData): boolean {
+      const encoded = this.saveSlots.read(this.activeSlot);
+      if (!imported && !encoded) return false;
 
-          // Load bit booster timer (with backwards compatibility)
-          this.bitBoosterTimer = data.bitBoosterTimer || 0;
-
-          // Load cash booster timer (with backwards compatibility)
-          this.cashBoosterTimer = data.cashBoosterTimer || 0;
+      try {
+          // Decode from Base64, then bring older versions up to date (throws on malformed data)
+          const data = imported ?? decodeSave(encoded!);
 
-          // Load prestige count (with backwards compatibility)
-          this.prestigeCount = data.prestigeCount || 0;
+          // The simulation already has the current window size, loadState rescales the save to it
+          this.sim.loadState(data);
 
-          // Load last active time (with backwards compatibility)
-          this.lastActiveTime = data.lastActiveTime || Date.now();
+          this.settings = { ...data.settings };
+          this.autoBuyer.loadConfig(data.autoBuyer);
+          this.autoPrestige.loadConfig(data.autoPrestige);
+          this.prestigeLog = data.prestigeLog.slice(0, MAX_PRESTIGE_LOG);
+          this.runStartedAt = data.runStartedAt;
+          this.lastActiveTime = data.lastActiveTime;
 
           // Sync SoundManager
           SoundManager.volume = this.settings.volume;
           SoundManager.muteBlocks = !this.settings.sfxBlocks;
           SoundManager.muteBounce = !this.settings.sfxBounce;
-
-          this.offsetY = data.offsetY;
-          this.maxRowGenerated = data.maxRowGenerated;
-          this.rowHeight = data.rowHeight; // Temporarily set to saved value for resize logic
-
-          // Restore Balls (with backwards compatibility for old single-ball saves)
-          if (data.balls && Array.isArray(data.balls)) {
-              const radius = this.rowHeight / 1.5;
-              this.balls = data.balls.map(b => {
-                  const ball = new Ball(b.x, b.y, b.radius, '#ff4444', b.dx, b.dy, radius * 0.02, 0.98);
-                  if (b.damage) ball.damage = b.damage;
-                  return ball;
-              });
-          } else if ((data as any).ball) {
-              // Backwards compatibility: convert old single ball save
-              const b = (data as any).ball;
-              const radius = this.rowHeight / 1.5;
-              const ball = new Ball(b.x, b.y, b.radius, '#ff4444', b.dx, b.dy, radius * 0.02, 0.98);
-              if (b.damage) ball.damage = b.damage;
-              this.balls = [ball];
-          }
-          
-          // Restore Blocks (with backwards compatibility for type and typeRolled)
-          this.blocks = data.blocks.map(b => {
-              const block = new Block(b.x, b.y, b.radius, b.hp, b.value, b.color, b.row, b.col, b.type || 'normal');
-              block.maxHp = b.maxHp;
-              // Backwards compatibility: if typeRolled is undefined, assume it hasn't been rolled
-              // This gives old saves a chance to roll existing blocks for special types
-              block.typeRolled = b.typeRolled ?? false;
-              return block;
-          });
-
-          // Handle Resize if saved dimensions differ from current
-          // We set current dims to Saved dims, then call resize to Current Actual dims
-          const savedW = data.canvasWidth;
-          const savedH = data.canvasHeight;
-          
-          // Force engine to think it is the saved size
-          this.canvasWidth = savedW;
-          this.canvasHeight = savedH;
-          this.holeWidth = savedW / 2;
-          this.holeLeft = (savedW - this.holeWidth) / 2;
-
-          // Now resize to the real window size
-          // We need to pass the real dimensions which we want to target.
-          // Since we are inside loadGame, we can assume 'this.canvasWidth' WAS the current size before we overwrote it.
-          // Wait, we need to know the *target* size. 
-          // Implementation detail: loadGame is called from MENU. 
-          // The engine instance already has the *current* window size in this.canvasWidth/Height before we overwrite it.
-          // So let's capture real dims first.
-          
-          // Actually, we can just grab window innerWidth/Height or pass it in?
-          // Simpler: The caller (handleInput) calls loadGame. 
-          // The engine *already* has the correct current dimensions in properties.
-          const targetW = this.canvasWidth;
-          const targetH = this.canvasHeight;
-
-          if (savedW !== targetW || savedH !== targetH) {
-             // We pretend we are the old size
-             this.canvasWidth = savedW;
-             this.canvasHeight = savedH;
-             this.updateGeometry(); // Reset hole geometry to saved
-             
-             // Now call resize to update to target
-             this.resize(targetW, targetH);
-          } else {
-             // Just ensure geometry is correct for current size
-             this.updateGeometry();
-          }
           
           return true;
       } catch (e) {
           console.error("Failed to load save:", e);
-          return false;
+          if (imported) return false;
+          const slot = this.activeSlot;
+
+          // A newer build's save is fine as it is: keep it and stop saving over it
+          if (e instanceof NewerSaveError) {
+              this.lockedSlots.add(slot);
+              this.slotNotices.set(slot, 'Saved by a newer version of the game, update to play it');
+              return false;
+          }
+
+          // Set a damaged save aside so the fresh game's first autosave can't destroy it; the slot's newest backup takes its place when there is one
+          const restored = this.saveSlots.reject(slot);
+          this.slotNotices.set(slot, restored ? 'Save was damaged, its latest backup was restored' : 'Save was damaged and set aside for recovery');
+          if (this.gameState !== 'MENU') this.showNotification(this.slotNotices.get(slot)!);
+          return restored && this.loadGame();
+      }
+  }
+
+  // A slot's stored save without loading it, null when empty or unreadable
+  readSlotSave(slot: number): SaveData | null {
+      const encoded = this.saveSlots.read(slot);
+      if (!encoded) return null;
+      try {
+          return decodeSave(encoded);
+      } catch {
+          return null;
+      }
+  }
+
+  // Compares a slot with its remote copy, then uploads, downloads or asks the player
+  syncSlot(slot: number, retries: number = this.SYNC_RETRIES) {
+      const sync = this.cloudSync;
+      if (!sync || this.lockedSlots.has(slot)) return; // A locked slot must not be replaced by a pull
+      this.lastSyncedSlot = slot;
+
+      sync.fetchSave(slot)
+          .then(remote => {
+              this.updateSyncStatus();
+              if (slot !== this.activeSlot) return; // The player picked another slot meanwhile
+              const local = this.readSlotSave(slot);
+              const decision = resolveSync(local, remote?.data ?? null, sync.getSyncedAt(slot));
+              console.log(`[Sync] Slot ${slot + 1}: ${decision}`);
+
+              if (decision === 'push' && local) {
+                  // Upload against the version just fetched: its ETag, or If-None-Match when the remote copy is gone
+                  sync.markSynced(slot, remote?.etag ?? null, remote ? sync.getSyncedAt(slot) : 0);
+                  this.pushToCloud(slot, local, retries);
+              } else if (decision === 'pull' && remote) {
+                  this.useRemoteSave(slot, remote);
+              } else if (decision === 'conflict' && local && remote) {
+                  this.syncConflict = { slot, local, remote };
+                  if (this.gameState === 'PLAYING') this.togglePause();
+              } else if (remote) {
+                  sync.markSynced(slot, remote.etag, remote.data.lastActiveTime);
+              }
+          })
+          .catch(e => this.onSyncError(e));
+  }
+
+  // Uploads a save; a rejected upload (the remote copy changed or vanished) fetches the remote copy again
+  pushToCloud(slot: number, data: SaveData, retries: number = this.SYNC_RETRIES) {
+      this.cloudSync?.push(slot, data)
+          .then(result => {
+              this.updateSyncStatus();
+              if (result !== 'conflict') return;
+              if (retries > 0) {
+                  this.syncSlot(slot, retries - 1);
+              } else {
+                  console.warn(`[Sync] Slot ${slot + 1}: upload rejected again, retrying on the next save`);
+                  this.lastSyncedSlot = null; // Playing the slot again compares it afresh
+              }
+          })
+          .catch(e => this.onSyncError(e));
+  }
+
+  // Replaces the slot with its remote save and loads it if the slot is being shown
+  useRemoteSave(slot: number, remote: RemoteSave) {
+      this.saveSlots.write(slot, encodeSave(remote.data), remote.data);
+      this.cloudSync?.markSynced(slot, remote.etag, remote.data.lastActiveTime);
+      if (slot !== this.activeSlot || !this.loadGame()) return;
+
+      // As with imports: one replay per world, and time spent on the other device isn't offline progress
+      this.recorder = null;
+      this.lastActiveTime = Date.now();
+      if (this.gameState !== 'MENU') this.showNotification("Loaded newer save from the cloud");
+  }
+
+  resolveSyncConflict(keepLocal: boolean) {
+      const conflict = this.syncConflict;
+      if (!conflict) return;
+      this.syncConflict = null;
+
+      if (keepLocal) {
+          // The remote version becomes the base, so the upload replaces exactly what the player saw
+          this.cloudSync?.markSynced(conflict.slot, conflict.remote.etag, conflict.remote.data.lastActiveTime);
+          this.saveGame();
+      } else {
+          this.useRemoteSave(conflict.slot, conflict.remote);
       }
   }
 
+  onSyncError(e: unknown) {
+      console.error("[Sync] Failed:", e);
+      this.updateSyncStatus();
+  }
+
+  // Tells the player when the endpoint stops or starts answering; saves keep going to local storage either way
+  updateSyncStatus() {
+      const online = this.cloudSync?.online ?? true;
+      if (online === this.syncOnline) return;
+      this.syncOnline = online;
+      this.showNotification(online ? "Cloud sync back online" : "Cloud sync offline, saving locally");
+  }
+
   onTabHidden() {
       // Only track time if actively playing (not paused, not in menu)
       if (this.gameState === 'PLAYING') {
@@ -438,51 +436,17 @@ class GameEngine {
 
   simulateOfflineProgress(elapsedMs: number) {
       console.log('[Offline Progress] Simulating progress for', elapsedMs, 'ms');
+      console.log('[Offline Progress] Current depth:', this.sim.getDepth(), 'm');
 
-      // Cap offline progress to 24 hours to prevent abuse
-      const MAX_OFFLINE_TIME = 24 * 60 * 60 * 1000; // 24 hours
-      const cappedElapsed = Math.min(elapsedMs, MAX_OFFLINE_TIME);
-      const elapsedSeconds = cappedElapsed / 1000;
-
-      // Calculate average depth based on deepest ball
-      const radius = this.rowHeight / 1.5;
-      const groundY = this.getGroundY();
-      const startY = groundY + radius + 20;
-      const deepestBall = this.balls.reduce((deepest, ball) => ball.y > deepest.y ? ball : deepest, this.balls[0]);
-      const currentRow = Math.max(0, Math.floor((deepestBall.y - startY) / this.rowHeight * 2));
-
-      console.log('[Offline Progress] Current depth:', currentRow, 'rows');
-
-      // Calculate average block stats at current depth
-      const avgBlockHp = 1 + Math.floor(currentRow * 0.2);
-      const avgBlockValue = 10 + Math.floor(currentRow * 0.5);
-
-      // Calculate damage per second
-      // Assume each ball hits ~2 blocks per second on average (rough estimate)
-      const hitsPerSecond = 2;
-      const totalDamage = this.balls.length * this.balls[0].damage * hitsPerSecond;
-
-      // Calculate blocks destroyed per second
-      const blocksPerSecond = totalDamage / avgBlockHp;
-
-      // Calculate money earned per second (with efficiency multiplier)
-      const efficiencyMult = 1 + (this.upgrades.efficiency - 1) * 0.2;
-      const moneyPerSecond = blocksPerSecond * avgBlockValue * efficiencyMult;
-
-      console.log('[Offline Progress] Money per second:', moneyPerSecond.toFixed(2));
-
-      // Calculate total offline earnings
-      const offlineEarnings = Math.floor(moneyPerSecond * elapsedSeconds);
+      const offlineEarnings = this.sim.simulateOfflineProgress(elapsedMs);
+      this.recorder?.recordOffline(elapsedMs);
 
       console.log('[Offline Progress] Total earnings:', offlineEarnings);
 
-      // Add earnings to money (only if positive)
-      if (offlineEarnings > 0) {
-          this.money += offlineEarnings;
-
+      if (offlineEarnings > 0n) {
           // Show notification about offline progress
-          const timeAway = this.formatTime(cappedElapsed);
-          this.showNotification(`Welcome back! Earned $${offlineEarnings} while away (${timeAway})`);
+          const timeAway = this.formatTime(Math.min(elapsedMs, this.sim.MAX_OFFLINE_TIME));
+          this.showNotification(`Welcome back! Earned $${this.format(offlineEarnings)} while away (${timeAway})`);
 
           console.log('[Offline Progress] Notification shown:', `Earned $${offlineEarnings} (${timeAway})`);
 
@@ -491,16 +455,6 @@ class GameEngine {
       } else {
           console.log('[Offline Progress] No earnings (0 or negative)');
       }
-
-      // Decay bit booster timer
-      if (this.bitBoosterTimer > 0) {
-          this.bitBoosterTimer = Math.max(0, this.bitBoosterTimer - cappedElapsed);
-      }
-
-      // Decay cash booster timer
-      if (this.cashBoosterTimer > 0) {
-          this.cashBoosterTimer = Math.max(0, this.cashBoosterTimer - cappedElapsed);
-      }
   }
 
   formatTime(ms: number): string {
@@ -517,336 +471,161 @@ class GameEngine {
       }
   }
 
-  prestige() {
-      // Increment prestige count (adds one more ball)
-      this.prestigeCount++;
-
-      // Reset money
-      this.money = 0;
-
-      // Reset all upgrades to level 1 (or 0 for block upgrades)
-      this.upgrades = {
-          damage: 1,
-          gravity: 1,
-          efficiency: 1,
-          bitBoosters: 0,
-          explosiveBlocks: 0,
-          cashBoosters: 0
-      };
-
-      // Reset bit booster timer
-      this.bitBoosterTimer = 0;
-
-      // Reset cash booster timer
-      this.cashBoosterTimer = 0;
-
-      // Clear all blocks
-      this.blocks = [];
-
-      // Reset generation state
-      this.maxRowGenerated = 0;
-
-      // Reset balls - spawn multiple balls based on prestige count
-      const groundY = this.getGroundY();
-      const hoverDist = Math.min(this.canvasHeight * 0.3, 250);
-      const radius = this.rowHeight / 1.5;
-      const baseGravity = radius * 0.02;
-
-      const numberOfBalls = this.prestigeCount + 1; // 1 ball + prestige count
-      this.balls = [];
-
-      // Spawn balls in a spread pattern
-      for (let i = 0; i < numberOfBalls; i++) {
-          const spreadX = (i - (numberOfBalls - 1) / 2) * (radius * 2); // Spread horizontally
-          const spreadY = Math.random() * 30 - 15; // Small vertical variance
-
-          this.balls.push(new Ball(
-              this.canvasWidth / 2 + spreadX,
-              groundY - hoverDist + spreadY,
-              radius * 0.3,
-              '#ff4444',
-              (Math.random() - 0.5) * 4,
-              0,
-              baseGravity,
-              0.98
-          ));
-      }
-
-      // Reset camera offset
-      this.offsetY = groundY - (this.canvasHeight * 0.75);
+  prestige(auto: boolean = false) {
+      const depth = this.sim.getDepth();
+      const reward = this.sim.getPrestigeReward();
+      this.sim.prestige();
+      this.recorder?.recordPrestige();
+      this.autoPrestige.reset();
 
-      // Generate initial blocks
-      this.generateRows(0, 40);
+      const now = Date.now();
+      this.prestigeLog.unshift({ at: now, prestige: this.sim.prestigeCount, depth, runMs: now - this.runStartedAt, auto });
+      this.prestigeLog.length = Math.min(this.prestigeLog.length, MAX_PRESTIGE_LOG);
+      this.runStartedAt = now;
 
       // Save the new prestige state
       this.saveGame();
 
       // Show notification
-      this.showNotification(`Prestige ${this.prestigeCount}! You now have ${numberOfBalls} ball${numberOfBalls > 1 ? 's' : ''}!`);
+      const numberOfBalls = this.sim.balls.length;
+      this.showNotification(`${auto ? 'Auto-prestige' : 'Prestige'} ${this.sim.prestigeCount}! +${this.format(reward)} PP, ${numberOfBalls} ball${numberOfBalls > 1 ? 's' : ''}!`);
   }
 
-  updateGeometry() {
-    this.holeWidth = this.canvasWidth / 2; // 50% width
-    this.holeLeft = (this.canvasWidth - this.holeWidth) / 2; // Centered
-    this.holeRight = this.holeLeft + this.holeWidth;
+  buyPrestigeNode(node: PrestigeNode) {
+      if (!this.sim.buyPrestigeNode(node)) return;
+      this.recorder?.recordPrestigeNode(node);
+      this.saveGame();
   }
 
-  // Helper to calculate ground Y position dynamically
-  getGroundY() {
-      return Math.max(200, this.canvasHeight * 0.3);
+  coreReset() {
+      if (!this.sim.canCoreReset()) return;
+      const reward = this.sim.getCoreReward();
+      this.sim.coreReset();
+      this.recorder?.recordCoreReset();
+      this.autoPrestige.reset();
+      this.runStartedAt = Date.now();
+      this.saveGame();
+
+      // Straight back into the fresh run
+      this.confirmingCoreReset = false;
+      this.togglePause();
+      this.showNotification(`Core Reset ${this.sim.coreResets}! +${this.format(reward)} core${reward > 1 ? 's' : ''}, x${this.formatMultiplier(this.sim.getCoreMultiplier())} bonus`);
   }
 
   resize(width: number, height: number) {
-      // Store old metrics
-      const oldRowHeight = this.rowHeight;
-      const oldRadius = oldRowHeight / 1.5;
-      const oldGroundY = Math.max(200, this.canvasHeight * 0.3); // Re-calculate old groundY
-      const oldStartY = oldGroundY + oldRadius + 20;
-      
-      const oldHoleLeft = this.holeLeft;
-      const oldHoleWidth = this.holeWidth;
-
-      // Update Dimensions
-      this.canvasWidth = width;
-      this.canvasHeight = height;
-      this.updateGeometry();
-
-      // Recalculate new constants
-      const numColumns = 10;
-      const dx = this.holeWidth / (numColumns - 1);
-      const radius = dx / Math.sqrt(3);
-      this.rowHeight = radius * 1.5;
-      
-      const newGroundY = this.getGroundY();
-      const newStartY = newGroundY + radius + 20;
-
-      // Update all balls' radius
-      for (const ball of this.balls) {
-          ball.radius = radius * 0.3;
-      }
+      // While on the title screen the idle ball is re-centred instead of rescaled
+      this.sim.resize(width, height, this.gameState === 'MENU');
+      this.recorder?.recordResize(width, height);
+  }
 
-      // Safe Reset if in MENU
-      if (this.gameState === 'MENU') {
-          // Reset first ball to center
-          if (this.balls.length > 0) {
-              this.balls[0].x = this.canvasWidth / 2;
+  toggleRecording() {
+      // Only record from inside a run so the title screen preview doesn't leak into the replay
+      if (this.gameState === 'MENU') return;
 
-              // Position ball relative to ground (hovering above)
-              // Scale hover distance slightly with height but cap it
-              const hoverDist = Math.min(this.canvasHeight * 0.3, 250);
-              this.balls[0].y = newGroundY - hoverDist;
+      if (!this.recorder) {
+          this.recorder = new ReplayRecorder(this.sim);
+          this.showNotification("Recording replay...");
+          return;
+      }
 
-              this.balls[0].dx = (Math.random() - 0.5) * 4;
-              this.balls[0].dy = 0;
-          }
+      const replay = this.recorder.finish(this.sim);
+      this.recorder = null;
+      this.downloadReplay(replay);
+      this.showNotification(`Replay saved (${replay.frames.length} frames)`);
+  }
 
-          // Position camera so ground is at ~75% of screen height
-          // ScreenY = WorldY - OffsetY  =>  OffsetY = WorldY - ScreenY
-          this.offsetY = newGroundY - (this.canvasHeight * 0.75);
-      } else if (oldRowHeight > 1) {
-          // Update all balls
-          for (const ball of this.balls) {
-              // Vertical
-              const ballRowIndex = (ball.y - oldStartY) / oldRowHeight;
-              ball.y = newStartY + ballRowIndex * this.rowHeight;
-
-              // Horizontal (Ball)
-              if (oldHoleWidth > 0) {
-                  const ballRelX = ball.x - oldHoleLeft;
-                  const ratioX = this.holeWidth / oldHoleWidth;
-                  ball.x = this.holeLeft + ballRelX * ratioX;
-              }
+  // --- Save Transfer ---
 
-              // Scale Velocity based on Radius change
-              if (oldRadius > 0) {
-                  const currentSpeed = Math.sqrt(ball.dx * ball.dx + ball.dy * ball.dy);
-                  const normalizedSpeed = currentSpeed / oldRadius;
+  copySaveExport() {
+      navigator.clipboard.writeText(exportSave(this.getSaveData()))
+          .then(() => { this.transferMessage = 'Save copied to clipboard'; })
+          .catch(e => {
+              console.error("Failed to copy save:", e);
+              this.transferMessage = 'Clipboard unavailable, use Download File';
+          });
+  }
 
-                  let newSpeed = normalizedSpeed * radius;
+  downloadSaveExport() {
+      try {
+          const blob = new Blob([exportSave(this.getSaveData())], { type: 'text/plain' });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `gravity-miner-save-${Date.now()}.txt`;
+          link.click();
+          URL.revokeObjectURL(url);
+          this.transferMessage = 'Save file downloaded';
+      } catch (e) {
+          console.error("Failed to export save:", e);
+          this.transferMessage = 'Download failed';
+      }
+  }
 
-                  const maxSafeSpeed = radius * 1.0;
-                  if (newSpeed > maxSafeSpeed) newSpeed = maxSafeSpeed;
+  pasteSaveImport() {
+      navigator.clipboard.readText()
+          .then(text => this.checkSaveImport(text))
+          .catch(e => {
+              console.error("Failed to read clipboard:", e);
+              this.transferMessage = 'Clipboard unavailable, use Open File';
+          });
+  }
 
-                  if (currentSpeed > 0.001) {
-                      ball.dx = (ball.dx / currentSpeed) * newSpeed;
-                      ball.dy = (ball.dy / currentSpeed) * newSpeed;
-                  }
-              }
-          }
+  openSaveImportFile() {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.txt,text/plain';
+      input.onchange = () => {
+          input.files?.[0]?.text()
+              .then(text => this.checkSaveImport(text))
+              .catch(e => {
+                  console.error("Failed to read save file:", e);
+                  this.transferMessage = 'Could not read that file';
+              });
+      };
+      input.click();
+  }
 
-          // Reset camera to follow deepest ball immediately
-          const deepestBall = this.balls.reduce((deepest, ball) => ball.y > deepest.y ? ball : deepest, this.balls[0]);
-          this.offsetY = deepestBall.y - this.canvasHeight / 3;
-      }
-      
-      // Always update gravity based on new radius for all balls
-      const gravityMult = 1 + (this.upgrades.gravity - 1) * 0.1;
-      for (const ball of this.balls) {
-          ball.gravity = radius * 0.02 * gravityMult;
+  // Validates an exported save and holds it for the preview; nothing changes until confirmImport
+  checkSaveImport(text: string) {
+      try {
+          this.pendingImport = importSave(text);
+          this.transferMessage = '';
+      } catch (e) {
+          this.pendingImport = null;
+          this.transferMessage = (e as Error).message.split('\n').slice(0, 2).join(' ');
       }
-
-      // Update existing blocks
-      this.blocks.forEach(block => {
-          block.radius = radius - 1; 
-          
-          const xOffset = (block.row % 2 === 0) ? 0 : -dx / 2;
-          const cx = block.col * dx + xOffset;
-          
-          block.x = cx + this.holeLeft;
-          block.y = newStartY + block.row * this.rowHeight;
-      });
   }
 
-  generateRows(startRow: number, count: number) {
-    const numColumns = 10;
-    const dx = this.holeWidth / (numColumns - 1);
-    const radius = dx / Math.sqrt(3);
-    const dy = this.rowHeight;
-    
-    // Use dynamic ground Y
-    const groundY = this.getGroundY();
-    const startY = groundY + radius + 20; 
-
-    for (let r = startRow; r < startRow + count; r++) {
-        for (let c = 0; c < numColumns; c++) {
-            const xOffset = (r % 2 === 0) ? 0 : -dx / 2;
-            
-            // cx is relative to hole start
-            const cx = c * dx + xOffset;
-            
-            // Shift to hole position
-            const finalX = cx + this.holeLeft;
-            const finalY = startY + r * dy;
-
-            // Ensure we stay within visual bounds of the hole mostly
-            // Allow slightly outside for the "half block" effect
-            if (finalX < this.holeLeft - dx || finalX > this.holeRight + dx) continue;
-
-            const hue = (r * 10) % 360;
-            const color = `hsl(${hue}, 60%, 50%)`;
-
-            // Determine block type based on upgrade levels
-            // Only roll for special types if block is within the playable hole area
-            let blockType: 'normal' | 'bitBooster' | 'explosive' | 'cashBooster' = 'normal';
-            if (finalX >= this.holeLeft && finalX <= this.holeRight) {
-                const bitBoosterChance = this.upgrades.bitBoosters * 0.01; // 1% per level
-                const explosiveChance = this.upgrades.explosiveBlocks * 0.01; // 1% per level
-                const cashBoosterChance = this.upgrades.cashBoosters * 0.01; // 1% per level
-                const roll = Math.random();
-                if (roll < bitBoosterChance) {
-                    blockType = 'bitBooster';
-                } else if (roll < bitBoosterChance + explosiveChance) {
-                    blockType = 'explosive';
-                } else if (roll < bitBoosterChance + explosiveChance + cashBoosterChance) {
-                    blockType = 'cashBooster';
-                }
-            }
+  confirmImport() {
+      if (!this.pendingImport || !this.loadGame(this.pendingImport)) {
+          this.transferMessage = 'Import failed';
+          return;
+      }
+      this.pendingImport = null;
+      this.transferMessage = '';
 
-            const block = new Block(
-                finalX,
-                finalY,
-                radius - 1,
-                1 + Math.floor(r * 0.2),
-                10 + Math.floor(r * 0.5),
-                color,
-                r, // Row
-                c, // Col
-                blockType
-            );
-            block.typeRolled = true; // Mark as rolled since we already determined its type
-            this.blocks.push(block);
-        }
-    }
-    this.maxRowGenerated = startRow + count;
-  }
-
-  rerollExistingBlocks() {
-      // Re-roll all existing blocks in the playable area for special types
-      const bitBoosterChance = this.upgrades.bitBoosters * 0.01;
-      const explosiveChance = this.upgrades.explosiveBlocks * 0.01;
-      const cashBoosterChance = this.upgrades.cashBoosters * 0.01;
-
-      if (bitBoosterChance === 0 && explosiveChance === 0 && cashBoosterChance === 0) return;
-
-      for (const block of this.blocks) {
-          // Only re-roll blocks within the playable hole area
-          if (block.x < this.holeLeft || block.x > this.holeRight) continue;
-
-          // Reset the roll flag and re-roll the block
-          block.typeRolled = false;
-          const roll = Math.random();
-
-          if (roll < bitBoosterChance) {
-              block.type = 'bitBooster';
-          } else if (roll < bitBoosterChance + explosiveChance) {
-              block.type = 'explosive';
-          } else if (roll < bitBoosterChance + explosiveChance + cashBoosterChance) {
-              block.type = 'cashBooster';
-          } else {
-              // Reset to normal if it doesn't roll as special
-              block.type = 'normal';
-          }
-          // Keep the original color based on depth
+      // A replay can't span two worlds, and time spent away from the other machine isn't offline progress here
+      this.recorder = null;
+      this.lastActiveTime = Date.now();
+      this.saveGame();
 
-          block.typeRolled = true;
-      }
+      this.menuState = 'MAIN';
+      this.showNotification("Save imported!");
   }
 
-  destroyAdjacentBlocks(centerBlock: Block, processedBlocks: Set<string> = new Set()) {
-    const { row, col } = centerBlock;
-    const efficiencyMult = 1 + (this.upgrades.efficiency - 1) * 0.2;
-    const cashMultiplier = this.cashBoosterTimer > 0 ? 2 : 1;
-
-    // Create unique ID for this block to prevent infinite recursion
-    const blockId = `${row},${col}`;
-    if (processedBlocks.has(blockId)) return;
-    processedBlocks.add(blockId);
-
-    // Hexagonal neighbors depend on whether row is even or odd
-    // For flat-topped hexagons with offset coordinates:
-    const evenRowOffsets = [
-        [-1, 0], [-1, 1],  // Top-left, Top-right
-        [0, -1], [0, 1],   // Left, Right
-        [1, 0], [1, 1]     // Bottom-left, Bottom-right
-    ];
-    const oddRowOffsets = [
-        [-1, -1], [-1, 0], // Top-left, Top-right
-        [0, -1], [0, 1],   // Left, Right
-        [1, -1], [1, 0]    // Bottom-left, Bottom-right
-    ];
-
-    const offsets = (row % 2 === 0) ? evenRowOffsets : oddRowOffsets;
-
-    for (const [dRow, dCol] of offsets) {
-        const targetRow = row + dRow;
-        const targetCol = col + dCol;
-
-        // Find and destroy matching block
-        const idx = this.blocks.findIndex(b => b.row === targetRow && b.col === targetCol);
-        if (idx !== -1) {
-            const adjacentBlock = this.blocks[idx];
-            const blockType = adjacentBlock.type;
-
-            // Give money for destroying this block
-            this.money += Math.ceil(adjacentBlock.value * efficiencyMult * cashMultiplier);
-
-            // Remove the block from the array
-            this.blocks.splice(idx, 1);
-            SoundManager.playPop();
-
-            // Trigger special block effects AFTER destroying
-            if (blockType === 'bitBooster') {
-                // Refresh bit booster timer
-                this.bitBoosterTimer = this.BIT_BOOSTER_DURATION;
-            } else if (blockType === 'cashBooster') {
-                // Refresh cash booster timer
-                this.cashBoosterTimer = this.CASH_BOOSTER_DURATION;
-            } else if (blockType === 'explosive') {
-                // Chain explosion - destroy this block's neighbors too
-                this.destroyAdjacentBlocks(adjacentBlock, processedBlocks);
-            }
-        }
-    }
+  downloadReplay(replay: ReplayFile) {
+      try {
+          const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `gravity-miner-replay-${replay.recordedAt}.json`;
+          link.click();
+          URL.revokeObjectURL(url);
+      } catch (e) {
+          console.error("Failed to export replay:", e);
+          this.showNotification("Replay Export Failed!");
+      }
   }
 
   update(dt: number) {
@@ -854,149 +633,50 @@ class GameEngine {
         this.notificationTimer -= dt;
     }
 
-    if (this.gameState === 'PLAYING') {
-        this.autoSaveTimer += dt;
-        if (this.autoSaveTimer >= this.AUTO_SAVE_INTERVAL) {
-            this.saveGame();
-            this.autoSaveTimer = 0;
-        }
-
-        // Update Bit Booster timer
-        if (this.bitBoosterTimer > 0) {
-            this.bitBoosterTimer -= dt;
-            if (this.bitBoosterTimer < 0) this.bitBoosterTimer = 0;
-        }
-
-        // Update Cash Booster timer
-        if (this.cashBoosterTimer > 0) {
-            this.cashBoosterTimer -= dt;
-            if (this.cashBoosterTimer < 0) this.cashBoosterTimer = 0;
-        }
-
-        // Roll existing blocks for special types when they come near any ball
-        const bitBoosterChance = this.upgrades.bitBoosters * 0.01;
-        const explosiveChance = this.upgrades.explosiveBlocks * 0.01;
-        const cashBoosterChance = this.upgrades.cashBoosters * 0.01;
-
-        if (bitBoosterChance > 0 || explosiveChance > 0 || cashBoosterChance > 0) {
-            // Only roll blocks within ~2 screens of any ball
-            const rollDistance = this.canvasHeight * 2;
-
-            for (const block of this.blocks) {
-                // Skip if already rolled
-                if (block.typeRolled) continue;
-
-                // Only roll blocks within the playable hole area
-                // Blocks halfway sticking out (center near edge) are still eligible
-                if (block.x < this.holeLeft || block.x > this.holeRight) continue;
-
-                // Check if block is close to ANY ball vertically
-                const isNearAnyBall = this.balls.some(ball => Math.abs(block.y - ball.y) <= rollDistance);
-                if (!isNearAnyBall) continue;
-
-                // Roll the dice
-                block.typeRolled = true;
-                const roll = Math.random();
-                if (roll < bitBoosterChance) {
-                    block.type = 'bitBooster';
-                } else if (roll < bitBoosterChance + explosiveChance) {
-                    block.type = 'explosive';
-                } else if (roll < bitBoosterChance + explosiveChance + cashBoosterChance) {
-                    block.type = 'cashBooster';
-                }
-            }
-        }
+    if (this.screenShakeTimer > 0) {
+        this.screenShakeTimer = Math.max(0, this.screenShakeTimer - dt);
     }
 
-    if (this.gameState === 'MENU' || this.gameState === 'PAUSED' || this.isResizing) {
+    // Ambient drone of the stratum being mined, silent outside of play
+    const stratum = this.sim.getCurrentStratum();
+    SoundManager.setAmbient(this.gameState === 'PLAYING' ? stratum.ambient : null);
+
+    if (this.gameState !== 'PLAYING' || this.isResizing) {
         return;
     }
 
-    const timeScale = dt / 16.667; // Normalize to 60fps (16.667ms per frame)
-
-    // Update all balls
-    for (const ball of this.balls) {
-        ball.update({ width: this.canvasWidth, height: this.canvasHeight } as HTMLCanvasElement, timeScale);
-
-        // Clamp velocity to prevent physics instability
-        // Limit speed to roughly 80% of a block radius per frame
-        const maxVelocity = (this.rowHeight / 1.5) * 0.8;
-        if (ball.dy > maxVelocity) ball.dy = maxVelocity;
-        if (ball.dy < -maxVelocity) ball.dy = -maxVelocity;
-        if (ball.dx > maxVelocity) ball.dx = maxVelocity;
-        if (ball.dx < -maxVelocity) ball.dx = -maxVelocity;
-
-        // Hole Wall Collisions
-        if (ball.x - ball.radius < this.holeLeft) {
-            ball.x = this.holeLeft + ball.radius;
-            if (Math.abs(ball.dx) > 1) SoundManager.playBounce(Math.abs(ball.dx) / 5);
-            ball.dx *= -ball.elasticity;
-        }
-        if (ball.x + ball.radius > this.holeRight) {
-            ball.x = this.holeRight - ball.radius;
-            if (Math.abs(ball.dx) > 1) SoundManager.playBounce(Math.abs(ball.dx) / 5);
-            ball.dx *= -ball.elasticity;
-        }
+    // Announce each new stratum as the deepest ball digs into it (not when bouncing back up or after a prestige)
+    if (this.currentStratum !== null && stratum.startRow > this.currentStratum.startRow) {
+        this.showNotification(`Entering ${stratum.name}`);
     }
+    this.currentStratum = stratum;
 
-    // Camera follow deepest ball
-    const deepestBall = this.balls.reduce((deepest, ball) => ball.y > deepest.y ? ball : deepest, this.balls[0]);
-    const targetY = deepestBall.y - this.canvasHeight / 3;
-    // Smoothly interpolate camera position towards target (up or down)
-    this.offsetY = this.offsetY + (targetY - this.offsetY) * 0.1;
-    
-    // Infinite Generation
-    let currentDeepestY = 250 + this.maxRowGenerated * this.rowHeight;
-    while (this.offsetY + this.canvasHeight * 1.5 > currentDeepestY) {
-        this.generateRows(this.maxRowGenerated, 50);
-        currentDeepestY = 250 + this.maxRowGenerated * this.rowHeight;
+    this.autoSaveTimer += dt;
+    if (this.autoSaveTimer >= this.AUTO_SAVE_INTERVAL) {
+        this.saveGame();
+        this.autoSaveTimer = 0;
     }
 
-    // Check collisions for all balls
-    for (let i = this.blocks.length - 1; i >= 0; i--) {
-      const block = this.blocks[i];
-
-      // Check collision with each ball
-      for (const ball of this.balls) {
-        // Skip if ball is too far from block
-        if (Math.abs(block.y - ball.y) > 200 || Math.abs(block.x - ball.x) > 200) continue;
-
-        if (this.checkCollision(ball, block)) {
-          // Calculate effective damage (with bit booster multiplier)
-          const damageMultiplier = this.bitBoosterTimer > 0 ? 2 : 1;
-          const effectiveDamage = ball.damage * damageMultiplier;
-
-          const destroyed = block.takeDamage(effectiveDamage);
-          if (destroyed) {
-            this.blocks.splice(i, 1);
-            const efficiencyMult = 1 + (this.upgrades.efficiency - 1) * 0.2;
-            const cashMultiplier = this.cashBoosterTimer > 0 ? 2 : 1;
-            this.money += Math.ceil(block.value * efficiencyMult * cashMultiplier);
-            SoundManager.playPop();
+    // Auto-buyer purchases are recorded like clicks so replays reproduce them
+    for (const type of this.autoBuyer.update(dt, this.sim)) {
+        this.recorder?.recordPurchase(type);
+    }
 
-            // Handle special block effects
-            if (block.type === 'bitBooster') {
-              // Refresh timer (no stacking, just reset)
-              this.bitBoosterTimer = this.BIT_BOOSTER_DURATION;
-            } else if (block.type === 'cashBooster') {
-              // Refresh cash booster timer
-              this.cashBoosterTimer = this.CASH_BOOSTER_DURATION;
-            } else if (block.type === 'explosive') {
-              // Destroy adjacent blocks
-              this.destroyAdjacentBlocks(block);
-            }
-            break; // Block destroyed, stop checking other balls
-          }
-        }
-      }
+    if (this.autoPrestige.update(dt, this.sim)) {
+        this.prestige(true);
     }
+
+    this.recorder?.recordFrame(dt);
+    this.sim.advance(dt);
   }
 
   draw(context: CanvasRenderingContext2D) {
     context.save();
-    context.translate(0, -this.offsetY);
+    // Camera (with a decaying shake after boss kills)
+    const shake = (this.screenShakeTimer / this.SCREEN_SHAKE_DURATION) * 12;
+    context.translate((Math.random() - 0.5) * shake, -this.sim.offsetY + (Math.random() - 0.5) * shake);
 
-    this.drawEnvironment(context, this.offsetY);
+    this.drawEnvironment(context, this.sim.offsetY);
 
     // Draw depth markers (in world space, before clipping)
     if (this.gameState === 'PLAYING') {
@@ -1008,19 +688,21 @@ class GameEngine {
     context.beginPath();
     // Clip rect: Hole area with dynamic bounds for infinite depth support
     // Create clip region relative to current camera position
-    const clipTop = this.offsetY - this.canvasHeight;
-    const clipHeight = this.canvasHeight * 3;
-    context.rect(this.holeLeft, clipTop, this.holeWidth, clipHeight);
+    const clipTop = this.sim.offsetY - this.sim.canvasHeight;
+    const clipHeight = this.sim.canvasHeight * 3;
+    context.rect(this.sim.holeLeft, clipTop, this.sim.holeWidth, clipHeight);
     context.clip();
 
-    this.blocks.forEach(block => {
-        if (block.y - this.offsetY > this.canvasHeight + 500 || block.y - this.offsetY < -500) return;
+    // Only visit rows within the visible range (plus a margin)
+    const firstRow = this.sim.getRowAt(this.sim.offsetY - 500);
+    const lastRow = this.sim.getRowAt(this.sim.offsetY + this.sim.canvasHeight + 500) + 1;
+    for (const block of this.sim.blocks.inRows(firstRow, lastRow)) {
         // Pass bounds for text hiding
-        block.draw(context, 0, this.holeLeft, this.holeRight, this.settings.showHp);
-    });
+        block.draw(context, 0, this.sim.holeLeft, this.sim.holeRight, this.settings.showHp, this.settings.numberFormat);
+    }
 
     // Draw all balls
-    for (const ball of this.balls) {
+    for (const ball of this.sim.balls) {
         ball.draw(context);
     }
     
@@ -1036,13 +718,13 @@ class GameEngine {
         this.togglePause = this.togglePause.bind(this); // Ensure 'this' context if needed, though arrow functions are better.
         // Actually, just fixing the draw logic:
         
-        const scale = Math.min(this.canvasWidth, this.canvasHeight) / 1000;
+        const scale = Math.min(this.sim.canvasWidth, this.sim.canvasHeight) / 1000;
         
         // Draw HUD (Top Right)
         const hudW = 200 * scale;
         const hudH = 80 * scale;
         const hudMargin = 20 * scale;
-        const hudX = this.canvasWidth - hudW - hudMargin;
+        const hudX = this.sim.canvasWidth - hudW - hudMargin;
         const hudY = hudMargin;
 
         // Rounded Rect Background for Stats
@@ -1056,15 +738,38 @@ class GameEngine {
         context.font = `${20 * scale}px "Fredoka One", cursive`;
         context.textAlign = 'left';
 
-        // Calculate depth based on row index to be scale-invariant (use deepest ball)
-        const radius = this.rowHeight / 1.5;
-        const groundY = this.getGroundY();
-        const startY = groundY + radius + 20;
-        const deepestBall = this.balls.reduce((deepest, ball) => ball.y > deepest.y ? ball : deepest, this.balls[0]);
-        const depth = Math.max(0, Math.floor((deepestBall.y - startY) / this.rowHeight * 2)); // 2m per row
+        // Depth of the deepest ball (2m per row)
+        const depth = this.sim.getDepth();
 
         context.fillText(`Depth: ${depth}m`, hudX + 20 * scale, hudY + 35 * scale);
-        context.fillText(`Money: $${this.money}`, hudX + 20 * scale, hudY + 65 * scale);
+        context.fillText(`Money: $${this.format(this.sim.money)}`, hudX + 20 * scale, hudY + 65 * scale);
+
+        // Resource Inventory (below stats, once the first ore is mined)
+        if (ORE_TYPES.some(ore => this.sim.resources[ore] > 0)) {
+            const resY = hudY + hudH + 10 * scale;
+            const resH = 34 * scale;
+
+            context.fillStyle = 'rgba(50, 50, 50, 0.8)';
+            context.beginPath();
+            context.roundRect(hudX, resY, hudW, resH, 10 * scale);
+            context.fill();
+
+            // One coloured nugget + count per ore
+            const slotW = hudW / ORE_TYPES.length;
+            context.font = `${14 * scale}px "Fredoka One", cursive`;
+            context.textAlign = 'left';
+            context.textBaseline = 'middle';
+            ORE_TYPES.forEach((ore, i) => {
+                const slotX = hudX + i * slotW + 8 * scale;
+                context.fillStyle = ORES[ore].color;
+                context.beginPath();
+                context.arc(slotX + 5 * scale, resY + resH / 2, 5 * scale, 0, Math.PI * 2);
+                context.fill();
+                context.fillStyle = 'white';
+                context.fillText(this.format(this.sim.resources[ore]), slotX + 14 * scale, resY + resH / 2);
+            });
+            context.textBaseline = 'alphabetic';
+        }
 
         // Draw Pause Button (Top Left)
         const pauseBtnSize = 60 * scale;
@@ -1093,7 +798,7 @@ class GameEngine {
         // Draw Save Button (Bottom Left)
         const saveBtnSize = 60 * scale;
         const saveBtnX = hudMargin;
-        const saveBtnY = this.canvasHeight - saveBtnSize - hudMargin;
+        const saveBtnY = this.sim.canvasHeight - saveBtnSize - hudMargin;
 
         // Rounded Rect Background for Save
         context.fillStyle = 'rgba(50, 50, 50, 0.8)';
@@ -1123,13 +828,31 @@ class GameEngine {
         context.fillStyle = 'white'; // Slider
         context.fillRect(iconX + iconSize * 0.3, iconY + iconSize * 0.6, iconSize * 0.2, iconSize * 0.2);
 
+        // Draw Recording Indicator (Right of Pause Button)
+        if (this.recorder) {
+            const recX = pauseBtnX + pauseBtnSize + hudMargin;
+            const recY = pauseBtnY + pauseBtnSize / 2;
+
+            context.fillStyle = '#f44336';
+            context.beginPath();
+            context.arc(recX + 8 * scale, recY, 8 * scale, 0, Math.PI * 2);
+            context.fill();
+
+            context.fillStyle = 'white';
+            context.font = `${18 * scale}px "Fredoka One", cursive`;
+            context.textAlign = 'left';
+            context.textBaseline = 'middle';
+            context.fillText('REC', recX + 22 * scale, recY);
+            context.textBaseline = 'alphabetic';
+        }
+
         // Draw Bit Booster Timer Bar (Top Center)
-        if (this.bitBoosterTimer > 0) {
+        if (this.sim.bitBoosterTimer > 0) {
             const barWidth = 200 * scale;
             const barHeight = 24 * scale;
-            const barX = (this.canvasWidth - barWidth) / 2;
+            const barX = (this.sim.canvasWidth - barWidth) / 2;
             const barY = hudMargin;
-            const fillRatio = this.bitBoosterTimer / this.BIT_BOOSTER_DURATION;
+            const fillRatio = this.sim.bitBoosterTimer / this.sim.BIT_BOOSTER_DURATION;
 
             // Background
             context.fillStyle = 'rgba(50, 50, 50, 0.8)';
@@ -1163,13 +886,13 @@ class GameEngine {
         }
 
         // Draw Cash Booster Timer Bar (Top Center, below bit booster)
-        if (this.cashBoosterTimer > 0) {
+        if (this.sim.cashBoosterTimer > 0) {
             const barWidth = 200 * scale;
             const barHeight = 24 * scale;
-            const barX = (this.canvasWidth - barWidth) / 2;
+            const barX = (this.sim.canvasWidth - barWidth) / 2;
             const barGap = 5 * scale;
-            const barY = hudMargin + (this.bitBoosterTimer > 0 ? barHeight + barGap : 0);
-            const fillRatio = this.cashBoosterTimer / this.CASH_BOOSTER_DURATION;
+            const barY = hudMargin + (this.sim.bitBoosterTimer > 0 ? barHeight + barGap : 0);
+            const fillRatio = this.sim.cashBoosterTimer / this.sim.CASH_BOOSTER_DURATION;
 
             // Background
             context.fillStyle = 'rgba(50, 50, 50, 0.8)';
@@ -1202,6 +925,87 @@ class GameEngine {
             context.textBaseline = 'alphabetic';
         }
 
+        // Draw Magnet Timer Bar (Top Center, below the booster bars)
+        if (this.sim.magnetTimer > 0) {
+            const barWidth = 200 * scale;
+            const barHeight = 24 * scale;
+            const barX = (this.sim.canvasWidth - barWidth) / 2;
+            const barGap = 5 * scale;
+            const barsAbove = (this.sim.bitBoosterTimer > 0 ? 1 : 0) + (this.sim.cashBoosterTimer > 0 ? 1 : 0);
+            const barY = hudMargin + barsAbove * (barHeight + barGap);
+            const fillRatio = this.sim.magnetTimer / this.sim.MAGNET_DURATION;
+
+            // Background
+            context.fillStyle = 'rgba(50, 50, 50, 0.8)';
+            context.beginPath();
+            context.roundRect(barX, barY, barWidth, barHeight, 5 * scale);
+            context.fill();
+
+            // Fill (purple gradient for magnet effect)
+            const gradient = context.createLinearGradient(barX, barY, barX + barWidth * fillRatio, barY);
+            gradient.addColorStop(0, '#8000CC');
+            gradient.addColorStop(1, '#DD88FF');
+            context.fillStyle = gradient;
+            context.beginPath();
+            context.roundRect(barX, barY, barWidth * fillRatio, barHeight, 5 * scale);
+            context.fill();
+
+            // Border
+            context.strokeStyle = '#B000FF';
+            context.lineWidth = 2 * scale;
+            context.beginPath();
+            context.roundRect(barX, barY, barWidth, barHeight, 5 * scale);
+            context.stroke();
+
+            // "MAGNET" text
+            context.fillStyle = 'white';
+            context.font = `${12 * scale}px "Fredoka One", cursive`;
+            context.textAlign = 'center';
+            context.textBaseline = 'middle';
+            context.fillText('MAGNET', barX + barWidth / 2, barY + barHeight / 2);
+            context.textBaseline = 'alphabetic';
+        }
+
+        // Draw Boss Health Bar (Bottom Center) while a boss layer is on screen
+        const boss = this.sim.getActiveBoss();
+        if (boss) {
+            const barWidth = Math.min(600 * scale, this.sim.canvasWidth * 0.8);
+            const barHeight = 28 * scale;
+            const barX = (this.sim.canvasWidth - barWidth) / 2;
+            const barY = this.sim.canvasHeight - hudMargin - (50 * scale) - (40 * scale) - barHeight; // Above the prestige button and its hint
+            const fillRatio = Math.max(0, boss.hp / boss.maxHp);
+
+            // Background
+            context.fillStyle = 'rgba(50, 50, 50, 0.8)';
+            context.beginPath();
+            context.roundRect(barX, barY, barWidth, barHeight, 5 * scale);
+            context.fill();
+
+            // Fill (crimson gradient)
+            const gradient = context.createLinearGradient(barX, barY, barX + barWidth * fillRatio, barY);
+            gradient.addColorStop(0, '#8b0033');
+            gradient.addColorStop(1, '#ff2d5a');
+            context.fillStyle = gradient;
+            context.beginPath();
+            context.roundRect(barX, barY, barWidth * fillRatio, barHeight, 5 * scale);
+            context.fill();
+
+            // Border
+            context.strokeStyle = '#ff6f91';
+            context.lineWidth = 2 * scale;
+            context.beginPath();
+            context.roundRect(barX, barY, barWidth, barHeight, 5 * scale);
+            context.stroke();
+
+            // "BOSS - 500m" text with remaining HP
+            context.fillStyle = 'white';
+            context.font = `${14 * scale}px "Fredoka One", cursive`;
+            context.textAlign = 'center';
+            context.textBaseline = 'middle';
+            context.fillText(`BOSS - ${boss.id * 2}m - ${this.format(Math.ceil(boss.hp))} / ${this.format(boss.maxHp)}`, barX + barWidth / 2, barY + barHeight / 2);
+            context.textBaseline = 'alphabetic';
+        }
+
         // Draw Notification (Top-Center, below HUD)
         if (this.notificationTimer > 0) {
             context.save();
@@ -1222,7 +1026,7 @@ class GameEngine {
             const padding = 20 * scale;
             const boxWidth = textWidth + padding * 2;
             const boxHeight = 40 * scale;
-            const boxX = (this.canvasWidth - boxWidth) / 2;
+            const boxX = (this.sim.canvasWidth - boxWidth) / 2;
             const boxY = notifY - boxHeight / 2;
 
             // Draw background with shadow
@@ -1242,18 +1046,47 @@ class GameEngine {
 
             // Draw text
             context.fillStyle = 'white';
-            context.fillText(this.notificationText, this.canvasWidth / 2, notifY);
+            context.fillText(this.notificationText, this.sim.canvasWidth / 2, notifY);
 
             context.restore();
         }
 
-        // Draw Prestige Button (Bottom Center)
-        const prestigeBtnW = 180 * scale;
+        // Draw Auto-Prestige Countdown (below the notification)
+        if (this.autoPrestige.countdown !== null) {
+            const banner = this.getAutoPrestigeBannerLayout();
+            const seconds = Math.ceil(this.autoPrestige.countdown / 1000);
+
+            context.fillStyle = 'rgba(103, 58, 183, 0.95)';
+            context.beginPath();
+            context.roundRect(banner.x, banner.y, banner.w, banner.h, 8 * scale);
+            context.fill();
+
+            context.fillStyle = 'white';
+            context.font = `${20 * scale}px "Fredoka One", cursive`;
+            context.textAlign = 'left';
+            context.textBaseline = 'middle';
+            context.fillText(`Auto-prestige in ${seconds}s...`, banner.x + 16 * scale, banner.y + banner.h / 2);
+
+            const cancelOffset = (this.activeButton === 'cancel_prestige') ? 2 * scale : 0;
+            context.fillStyle = '#f44336';
+            context.beginPath();
+            context.roundRect(banner.cancelX, banner.cancelY + cancelOffset, banner.cancelW, banner.cancelH, 5 * scale);
+            context.fill();
+
+            context.fillStyle = 'white';
+            context.font = `${16 * scale}px "Fredoka One", cursive`;
+            context.textAlign = 'center';
+            context.fillText('CANCEL', banner.cancelX + banner.cancelW / 2, banner.cancelY + banner.cancelH / 2 + cancelOffset);
+            context.textBaseline = 'alphabetic';
+        }
+
+        // Draw Prestige Button (Bottom Center)
+        const prestigeBtnW = 180 * scale;
         const prestigeBtnH = 50 * scale;
-        const prestigeBtnX = (this.canvasWidth - prestigeBtnW) / 2;
-        const prestigeBtnY = this.canvasHeight - prestigeBtnH - hudMargin;
+        const prestigeBtnX = (this.sim.canvasWidth - prestigeBtnW) / 2;
+        const prestigeBtnY = this.sim.canvasHeight - prestigeBtnH - hudMargin;
 
-        const canPrestige = depth >= 1000;
+        const canPrestige = this.sim.canPrestige();
         const offset = (this.activeButton === 'prestige' && canPrestige) ? 3 * scale : 0;
 
         // Shadow
@@ -1275,7 +1108,8 @@ class GameEngine {
         context.textBaseline = 'middle';
         context.shadowColor = 'rgba(0,0,0,0.5)';
         context.shadowBlur = 2 * scale;
-        context.fillText('PRESTIGE', prestigeBtnX + prestigeBtnW / 2, prestigeBtnY + (prestigeBtnH / 2) + offset);
+        const prestigeLabel = canPrestige ? `PRESTIGE (+${this.format(this.sim.getPrestigeReward())})` : 'PRESTIGE';
+        context.fillText(prestigeLabel, prestigeBtnX + prestigeBtnW / 2, prestigeBtnY + (prestigeBtnH / 2) + offset);
         context.shadowBlur = 0;
 
         // Show tooltip above button if hovered and not available
@@ -1288,7 +1122,7 @@ class GameEngine {
             context.shadowBlur = 6 * scale;
             context.shadowOffsetX = 2 * scale;
             context.shadowOffsetY = 2 * scale;
-            context.fillText('Reach 1000m to prestige', prestigeBtnX + prestigeBtnW / 2, prestigeBtnY - (10 * scale));
+            context.fillText(`Reach ${this.sim.PRESTIGE_DEPTH}m to prestige`, prestigeBtnX + prestigeBtnW / 2, prestigeBtnY - (10 * scale));
             context.shadowBlur = 0;
             context.shadowOffsetX = 0;
             context.shadowOffsetY = 0;
@@ -1296,17 +1130,21 @@ class GameEngine {
 
         context.textBaseline = 'alphabetic';
     }
+
+    if (this.syncConflict) {
+        this.drawSyncConflict(context);
+    }
   }
 
   drawEnvironment(context: CanvasRenderingContext2D, offsetY: number) {
-    const groundY = this.getGroundY();
+    const groundY = this.sim.getGroundY();
     const cornerRadius = 20;
     const borderColor = '#333333'; // Dark grey for borders
     const borderWidth = 2;
 
     // Sky (Full Width)
     context.fillStyle = '#87CEEB';
-    context.fillRect(0, -10000, this.canvasWidth, 10000 + groundY + 100);
+    context.fillRect(0, -10000, this.sim.canvasWidth, 10000 + groundY + 100);
 
     // Hole Background (Darker Brown - textured) with Parallax Effect
     // Parallax factor: 0.3 means background moves at 30% speed (more dramatic effect)
@@ -1320,27 +1158,26 @@ class GameEngine {
     // The parallax offset can move this up, so we need extra coverage
     const holeBackgroundStartY = groundY - 2000;
 
-    context.fillStyle = this.dirtPattern || '#4A2C2A'; // Use pattern, fallback to solid dark brown
-    context.fillRect(this.holeLeft, holeBackgroundStartY, this.holeWidth, 1002000);
+    // Only the texture scrolls slower; the strata boundaries stay level with the walls and blocks
+    this.fillStrata(context, this.sim.holeLeft, this.sim.holeWidth, holeBackgroundStartY, holeBackgroundStartY + 1002000, parallaxAdjustment);
     // Overlay a semi-transparent dark color to make it darker than the walls
     context.fillStyle = 'rgba(0, 0, 0, 0.3)'; // Adjust alpha for desired darkness
-    context.fillRect(this.holeLeft, holeBackgroundStartY, this.holeWidth, 1002000);
+    context.fillRect(this.sim.holeLeft, holeBackgroundStartY, this.sim.holeWidth, 1002000);
 
     context.restore(); // Remove parallax offset
 
-    // Dirt Walls (Straight, no rounding)
-    context.fillStyle = this.dirtPattern || '#5d4037'; 
-    context.fillRect(0, groundY, this.holeLeft, 1000000); 
-    context.fillRect(this.holeRight, groundY, this.canvasWidth - this.holeRight, 1000000);
+    // Walls (Straight, no rounding), textured per stratum
+    this.fillStrata(context, 0, this.sim.holeLeft, groundY, 1000000);
+    this.fillStrata(context, this.sim.holeRight, this.sim.canvasWidth - this.sim.holeRight, groundY, 1000000);
 
     // Dirt Wall Borders (Vertical lines emphasizing the hole)
     context.strokeStyle = borderColor;
     context.lineWidth = borderWidth;
     context.beginPath();
-    context.moveTo(this.holeLeft, groundY);
-    context.lineTo(this.holeLeft, 1000000); // Left wall inner border
-    context.moveTo(this.holeRight, groundY);
-    context.lineTo(this.holeRight, 1000000); // Right wall inner border
+    context.moveTo(this.sim.holeLeft, groundY);
+    context.lineTo(this.sim.holeLeft, 1000000); // Left wall inner border
+    context.moveTo(this.sim.holeRight, groundY);
+    context.lineTo(this.sim.holeRight, 1000000); // Right wall inner border
     context.stroke();
     
     // Grass Top (with rounded corners and borders)
@@ -1351,10 +1188,10 @@ class GameEngine {
     // Left Grass Fill and Stroke
     context.beginPath();
     context.moveTo(0, groundY - 20); // Top-left of grass
-    context.lineTo(this.holeLeft - cornerRadius, groundY - 20); // To start of curve
+    context.lineTo(this.sim.holeLeft - cornerRadius, groundY - 20); // To start of curve
     // The rounded part: from (holeLeft - cornerRadius, groundY - 20) to (holeLeft, groundY)
     // Control point at (holeLeft, groundY - 20)
-    context.quadraticCurveTo(this.holeLeft, groundY - 20, this.holeLeft, groundY); 
+    context.quadraticCurveTo(this.sim.holeLeft, groundY - 20, this.sim.holeLeft, groundY); 
     context.lineTo(0, groundY); // Bottom-left corner
     context.closePath();
     context.fill();
@@ -1362,12 +1199,12 @@ class GameEngine {
 
     // Right Grass Fill and Stroke
     context.beginPath();
-    context.moveTo(this.canvasWidth, groundY - 20); // Top-right of grass
-    context.lineTo(this.holeRight + cornerRadius, groundY - 20); // To start of curve
+    context.moveTo(this.sim.canvasWidth, groundY - 20); // Top-right of grass
+    context.lineTo(this.sim.holeRight + cornerRadius, groundY - 20); // To start of curve
     // The rounded part: from (holeRight + cornerRadius, groundY - 20) to (holeRight, groundY)
     // Control point at (holeRight, groundY - 20)
-    context.quadraticCurveTo(this.holeRight, groundY - 20, this.holeRight, groundY);
-    context.lineTo(this.canvasWidth, groundY); // Bottom-right corner
+    context.quadraticCurveTo(this.sim.holeRight, groundY - 20, this.sim.holeRight, groundY);
+    context.lineTo(this.sim.canvasWidth, groundY); // Bottom-right corner
     context.closePath();
     context.fill();
     context.stroke(); // Apply border to the entire shape
@@ -1375,12 +1212,12 @@ class GameEngine {
     // Top horizontal border segments (above grass sections)
     context.beginPath();
     context.moveTo(0, groundY - 20);
-    context.lineTo(this.holeLeft - cornerRadius, groundY - 20);
+    context.lineTo(this.sim.holeLeft - cornerRadius, groundY - 20);
     context.stroke();
     
     context.beginPath();
-    context.moveTo(this.holeRight + cornerRadius, groundY - 20);
-    context.lineTo(this.canvasWidth, groundY - 20);
+    context.moveTo(this.sim.holeRight + cornerRadius, groundY - 20);
+    context.lineTo(this.sim.canvasWidth, groundY - 20);
     context.stroke();
 
     this.drawBrickWalls(context, groundY);
@@ -1388,8 +1225,8 @@ class GameEngine {
 
   drawBrickWalls(context: CanvasRenderingContext2D, groundY: number) {
       // Scale wall dimensions based on rowHeight
-      const wallWidth = this.rowHeight * 0.8; 
-      const wallHeight = Math.max(this.canvasHeight, 1000); // Always cover screen height at least
+      const wallWidth = this.sim.rowHeight * 0.8; 
+      const wallHeight = Math.max(this.sim.canvasHeight, 1000); // Always cover screen height at least
 
       const brickColor = '#A05A2C';
       const mortarColor = '#5a2d0c';
@@ -1400,10 +1237,10 @@ class GameEngine {
         context.fillRect(x, groundY - wallHeight, wallWidth, wallHeight);
         
         context.strokeStyle = mortarColor;
-        context.lineWidth = Math.max(1, this.rowHeight * 0.03); // Scale line width
+        context.lineWidth = Math.max(1, this.sim.rowHeight * 0.03); // Scale line width
         context.beginPath();
         
-        const bH = this.rowHeight * 0.4; // Scale brick height
+        const bH = this.sim.rowHeight * 0.4; // Scale brick height
         const bW = bH; // Square-ish bricks
         
         // Draw bricks
@@ -1422,29 +1259,29 @@ class GameEngine {
         context.stroke();
         
         // Heavy Border around the wall
-        context.lineWidth = Math.max(2, this.rowHeight * 0.05);
+        context.lineWidth = Math.max(2, this.sim.rowHeight * 0.05);
         context.strokeStyle = '#333';
         context.strokeRect(x, groundY - wallHeight, wallWidth, wallHeight);
       };
 
       // Draw Left Wall (Shifted left by width so right edge aligns with holeLeft)
-      drawSide(this.holeLeft - wallWidth);
+      drawSide(this.sim.holeLeft - wallWidth);
 
       // Draw Right Wall (Left edge aligns with holeRight)
-      drawSide(this.holeRight);
+      drawSide(this.sim.holeRight);
   }
 
   drawDepthMarkers(context: CanvasRenderingContext2D) {
-      const scale = Math.min(this.canvasWidth, this.canvasHeight) / 1000;
+      const scale = Math.min(this.sim.canvasWidth, this.sim.canvasHeight) / 1000;
 
       // Calculate depth parameters (same as HUD depth calculation)
-      const radius = this.rowHeight / 1.5;
-      const groundY = this.getGroundY();
+      const radius = this.sim.rowHeight / 1.5;
+      const groundY = this.sim.getGroundY();
       const startY = groundY + radius + 20;
 
       // Screen bounds in world space
-      const screenTop = this.offsetY;
-      const screenBottom = this.offsetY + this.canvasHeight;
+      const screenTop = this.sim.offsetY;
+      const screenBottom = this.sim.offsetY + this.sim.canvasHeight;
 
       // Draw markers every 50m, starting at 50m
       const markerInterval = 50; // meters
@@ -1453,8 +1290,8 @@ class GameEngine {
       // depth (in meters) = (y - startY) / rowHeight * 2
       // So y = startY + (depth / 2) * rowHeight
 
-      const minVisibleDepth = Math.max(0, Math.floor((screenTop - startY) / this.rowHeight * 2 / markerInterval)) * markerInterval;
-      const maxVisibleDepth = Math.ceil((screenBottom - startY) / this.rowHeight * 2 / markerInterval) * markerInterval;
+      const minVisibleDepth = Math.max(0, Math.floor((screenTop - startY) / this.sim.rowHeight * 2 / markerInterval)) * markerInterval;
+      const maxVisibleDepth = Math.ceil((screenBottom - startY) / this.sim.rowHeight * 2 / markerInterval) * markerInterval;
 
       context.fillStyle = 'white';
       context.font = `${24 * scale}px "Fredoka One", cursive`;
@@ -1471,10 +1308,10 @@ class GameEngine {
           if (depth < markerInterval) continue; // Start at 50m
 
           // Calculate Y position in world space
-          const markerY = startY + (depth / 2) * this.rowHeight;
+          const markerY = startY + (depth / 2) * this.sim.rowHeight;
 
           // Position to the left of the hole, on the dirt wall
-          const markerX = this.holeLeft - 10 * scale;
+          const markerX = this.sim.holeLeft - 10 * scale;
 
           context.fillText(`${depth}m`, markerX, markerY);
       }
@@ -1485,17 +1322,91 @@ class GameEngine {
       context.shadowOffsetY = 0;
   }
 
+  // Title box with one row per save slot, shared by drawTitleScreen and handleInput
+  getTitleLayout() {
+      const scale = Math.min(this.sim.canvasWidth, this.sim.canvasHeight) / 1000;
+      const margin = 30 * scale;
+      const titleLineHeight = 50 * scale;
+      const gap = 25 * scale;
+      const slotH = 90 * scale;
+      const slotGap = 15 * scale;
+      const pad = 8 * scale;
+
+      const boxW = 700 * scale;
+      const boxH = margin + titleLineHeight * 2 + gap + (slotH + slotGap) * SAVE_SLOT_COUNT - slotGap + margin;
+      const boxX = this.sim.canvasWidth / 2 - boxW / 2;
+      const boxY = Math.max(margin, this.sim.canvasHeight / 2 - boxH / 2 - (100 * scale)); // Leave the world visible below
+
+      const innerX = boxX + margin;
+      const innerW = boxW - margin * 2;
+      const actionsW = 300 * scale;
+      const actionsX = innerX + innerW - actionsW - pad;
+      const smallW = (actionsW - pad * 2) / 3;
+      const emptySlot = this.saveSlots.findEmptySlot();
+
+      const slots: Array<{ slot: number; y: number }> = [];
+      const buttons: MenuButton[] = [];
+      for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+          const y = boxY + margin + titleLineHeight * 2 + gap + slot * (slotH + slotGap);
+          const info = this.saveSlots.getInfo(slot);
+          const halfH = (slotH - pad * 3) / 2;
+          const actionsY = y + pad * 2 + halfH;
+          slots.push({ slot, y });
+
+          buttons.push({
+              id: `slot_play_${slot}`, x: actionsX, y: y + pad, w: actionsW, h: halfH,
+              label: this.lockedSlots.has(slot) ? 'LOCKED' : info ? 'PLAY' : 'NEW GAME',
+              color: this.lockedSlots.has(slot) ? '#444' : info ? '#4caf50' : '#2196f3',
+              onClick: () => this.playSlot(slot)
+          });
+          buttons.push({
+              id: `slot_copy_${slot}`, x: actionsX, y: actionsY, w: smallW, h: halfH,
+              label: 'COPY',
+              color: info && emptySlot !== -1 ? '#607d8b' : '#444',
+              onClick: () => { if (info && emptySlot !== -1) this.saveSlots.copy(slot, emptySlot); }
+          });
+          buttons.push({
+              id: `slot_rename_${slot}`, x: actionsX + smallW + pad, y: actionsY, w: smallW, h: halfH,
+              label: 'RENAME',
+              color: info ? '#607d8b' : '#444',
+              onClick: () => {
+                  if (!info) return;
+                  const name = window.prompt(`Name this save slot (up to ${MAX_SLOT_NAME_LENGTH} characters)`, info.name);
+                  if (name !== null) this.saveSlots.rename(slot, name);
+              }
+          });
+          buttons.push({
+              id: `slot_delete_${slot}`, x: actionsX + (smallW + pad) * 2, y: actionsY, w: smallW, h: halfH,
+              label: this.confirmingDeleteSlot === slot ? 'SURE?' : 'DELETE',
+              color: !info ? '#444' : this.confirmingDeleteSlot === slot ? '#d32f2f' : '#8d3030',
+              onClick: () => {
+                  if (!info) return;
+                  if (this.confirmingDeleteSlot !== slot) {
+                      this.confirmingDeleteSlot = slot; // Second press deletes
+                      return;
+                  }
+                  this.saveSlots.remove(slot);
+                  this.lockedSlots.delete(slot);
+                  this.slotNotices.delete(slot);
+                  this.cloudSync?.remove(slot).catch(e => this.onSyncError(e));
+                  this.confirmingDeleteSlot = null;
+              }
+          });
+      }
+
+      return {
+          scale, boxX, boxY, boxW, boxH, innerX, innerW, slotH,
+          title1Y: boxY + margin + titleLineHeight / 2,
+          title2Y: boxY + margin + titleLineHeight * 1.5,
+          slots, buttons
+      };
+  }
+
   drawTitleScreen(context: CanvasRenderingContext2D) {
-    const scale = Math.min(this.canvasWidth, this.canvasHeight) / 1000;
+    const { scale, boxX, boxY, boxW, boxH, innerX, innerW, slotH, title1Y, title2Y, slots, buttons } = this.getTitleLayout();
 
     context.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    context.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
-
-    // Box dimensions
-    const boxW = 500 * scale;
-    const boxH = 250 * scale; 
-    const boxX = this.canvasWidth / 2 - boxW / 2;
-    const boxY = this.canvasHeight / 2 - boxH / 2 - (180 * scale);
+    context.fillRect(0, 0, this.sim.canvasWidth, this.sim.canvasHeight);
 
     // Rounded Grey Box with Border
     const borderColor = '#1A1A1A'; // Darker grey for border
@@ -1509,32 +1420,18 @@ class GameEngine {
     context.fill();
     context.stroke(); // Draw border
 
-    // Layout Calculations for Centering
     const title1 = "LeFizzim's";
     const title2 = "Gravity Miner";
-    const titleLineHeight = 50 * scale; 
-    const btnHeight = 55 * scale; // 50 button + 5 shadow
-    const gap = 25 * scale; // Space between title block and button
-    
-    // Calculate total height of content
-    const totalContentHeight = titleLineHeight * 2 + gap + btnHeight; 
-    
-    const centerY = boxY + boxH / 2;
-    // Visual correction: Shift content UP to reduce top margin
-    const startY = centerY - totalContentHeight / 2 - (15 * scale); 
-    
-    const title1Y = startY + titleLineHeight / 2 + (10 * scale); 
-    const title2Y = startY + titleLineHeight + titleLineHeight / 2 + (10 * scale); 
-    const btnY = startY + titleLineHeight * 2 + gap;
 
     // Title Text (Split and Shadowed)
     context.fillStyle = 'white';
     context.textAlign = 'center';
+    context.textBaseline = 'middle';
     
     // LeFizzim's (Fredoka One, Italic, Lighter)
     context.font = `italic ${24 * scale}px "Fredoka One", cursive`;
     context.fillStyle = '#dddddd';
-    context.fillText(title1, this.canvasWidth / 2, title1Y);
+    context.fillText(title1, this.sim.canvasWidth / 2, title1Y);
 
     // Gravity Miner (Fredoka One, Big, Shadowed)
     context.shadowColor = 'rgba(0, 0, 0, 0.8)';
@@ -1545,98 +1442,191 @@ class GameEngine {
     context.font = `${48 * scale}px "Fredoka One", cursive`;
     context.strokeStyle = borderColor; 
     context.lineWidth = borderWidth;   
-    context.strokeText(title2, this.canvasWidth / 2, title2Y); // Draw outline first
+    context.strokeText(title2, this.sim.canvasWidth / 2, title2Y); // Draw outline first
     context.fillStyle = 'white'; // Set fill style to white
-    context.fillText(title2, this.canvasWidth / 2, title2Y); // Then draw the white fill
+    context.fillText(title2, this.sim.canvasWidth / 2, title2Y); // Then draw the white fill
 
     context.shadowBlur = 0; // Reset shadow
     context.shadowOffsetX = 0;
     context.shadowOffsetY = 0;
 
-    // Start Button
-    const btnW = 200 * scale;
-    const btnH = 50 * scale;
-    const btnX = this.canvasWidth / 2 - btnW / 2;
-    
-    const btnOffset = (this.activeButton === 'start') ? 3 * scale : 0; // Shift button down if pressed
+    // Slot Rows (the last played slot is outlined)
+    for (const { slot, y } of slots) {
+        const info = this.saveSlots.getInfo(slot);
+        context.fillStyle = 'rgba(0, 0, 0, 0.3)';
+        context.beginPath();
+        context.roundRect(innerX, y, innerW, slotH, 8 * scale);
+        context.fill();
+        if (slot === this.saveSlots.lastSlot && info) {
+            context.strokeStyle = '#FFD700';
+            context.lineWidth = 2 * scale;
+            context.stroke();
+        }
 
-    // Check for Save
-    const hasSave = !!localStorage.getItem(this.SAVE_KEY);
-    const btnText = hasSave ? "CONTINUE" : "START";
+        const textX = innerX + 15 * scale;
+        const textW = innerW - 340 * scale;
+        context.textAlign = 'left';
+        context.fillStyle = info ? 'white' : '#888';
+        context.font = `${22 * scale}px "Fredoka One", cursive`;
+        context.fillText(info ? info.name : `Slot ${slot + 1}`, textX, y + slotH * 0.3, textW);
 
-    // 3D Shadow (Darker Green)
-    context.fillStyle = '#2e7d32'; 
-    context.beginPath();
-    context.roundRect(btnX, btnY + (5 * scale), btnW, btnH, 5 * scale); // Shadow always there
-    context.fill();
+        context.font = `${14 * scale}px "Fredoka One", cursive`;
+        context.fillStyle = '#aaa';
+        if (info) {
+            const cores = info.cores > 0 ? `, ${this.format(info.cores)} cores` : '';
+            context.fillText(`Best ${this.format(info.maxDepth)}m, prestige ${info.prestigeCount}${cores}`, textX, y + slotH * 0.58, textW);
+            const played = info.lastPlayed > 0 ? `Played ${new Date(info.lastPlayed).toLocaleString()}` : 'Save could not be read'; // See SaveSlots.buildInfo
+            if (this.slotNotices.has(slot)) context.fillStyle = '#ff9800';
+            context.fillText(this.slotNotices.get(slot) ?? played, textX, y + slotH * 0.8, textW);
+        } else {
+            if (this.slotNotices.has(slot)) context.fillStyle = '#ff9800';
+            context.fillText(this.slotNotices.get(slot) ?? 'Empty slot', textX, y + slotH * 0.62, textW);
+        }
+    }
 
-    // Main Button Face (Lighter Green)
-    context.fillStyle = '#4caf50';
-    context.beginPath();
-    context.roundRect(btnX, btnY + btnOffset, btnW, btnH, 5 * scale); // Apply offset if pressed
-    context.fill();
-    
-    context.fillStyle = 'white';
-    context.font = `${30 * scale}px "Fredoka One", cursive`;
-    context.textBaseline = 'middle'; // Vertically center text
-    context.shadowColor = 'rgba(0,0,0,0.5)';
-    context.shadowBlur = 2 * scale;
-    context.fillText(btnText, this.canvasWidth / 2, btnY + (btnH / 2) + btnOffset); 
-    context.shadowBlur = 0;
+    this.drawMenuButtons(context, buttons, scale);
     context.textBaseline = 'alphabetic'; // Reset for other text
   }
 
+  // Starts the chosen slot: its save if it has one, otherwise a fresh world
+  playSlot(slot: number) {
+      if (this.lockedSlots.has(slot)) return; // Its row says why
+
+      // Initialize Audio
+      SoundManager.resume();
+
+      this.activeSlot = slot;
+      this.saveSlots.lastSlot = slot;
+      this.confirmingDeleteSlot = null;
+      if (!this.loadGame()) {
+          if (this.lockedSlots.has(slot)) return; // Found out just now; stay on the title screen
+          this.startNewGame();
+      }
+      this.slotNotices.delete(slot);
+      this.gameState = 'PLAYING';
+      if (slot !== this.lastSyncedSlot) this.syncSlot(slot);
+  }
+
+  // Replaces the previewed world with a fresh run; settings carry over
+  startNewGame() {
+      const events = this.sim.events;
+      this.sim = new Simulation(this.sim.canvasWidth, this.sim.canvasHeight, this.newGameSeed);
+      this.sim.events = events;
+      this.sim.launchBalls();
+
+      this.autoBuyer.loadConfig(undefined);
+      this.autoPrestige.loadConfig(undefined);
+      this.prestigeLog = [];
+      this.runStartedAt = Date.now();
+      this.lastActiveTime = Date.now();
+  }
+
   getPauseMenuLayout() {
-      const scale = Math.min(this.canvasWidth, this.canvasHeight) / 1000;
+      const scale = Math.min(this.sim.canvasWidth, this.sim.canvasHeight) / 1000;
       const margin = 50 * scale; // Increased margin
       
       let btnW = 200 * scale;
       if (this.menuState === 'SHOP') {
-          btnW = 400 * scale;
+          btnW = 825 * scale; // Two 400px item columns + gap
+      } else if (this.menuState === 'AUTOBUY' || this.menuState === 'AUTOPRESTIGE' || this.menuState === 'PRESTIGE' || this.menuState === 'CORE' || this.menuState === 'TRANSFER') {
+          btnW = 600 * scale;
       }
       
       const btnHeight = 55 * scale;
       const gap = 25 * scale;
       const titleLineHeight = 60 * scale;
 
-      const btnX = this.canvasWidth / 2 - btnW / 2;
+      const btnX = this.sim.canvasWidth / 2 - btnW / 2;
       
       let boxH = 0;
       if (this.menuState === 'MAIN') {
-          // Extra space for SHOP button (btnHeight + gap)
-          boxH = margin + titleLineHeight + gap + (btnHeight * 4) + (gap * 3) + (30 * scale) + margin;
+          // Resume, Shop, Auto-Buyer, Auto-Prestige, Prestige Tree, Core Reset, Settings, Save and Export/Import buttons
+          boxH = margin + titleLineHeight + gap + (btnHeight * 9) + (gap * 8) + (30 * scale) + margin;
       } else if (this.menuState === 'SHOP') {
-          // Shop Height: Title + 2 section headers + 6 items + back button
+          // Shop Height: Title + section header + tallest column + back button
+          // General + ore upgrades (3 + 3 items) sit in the left column, block upgrades (7 items) in the right one
           const sectionHeaderH = 30 * scale;
           const itemHeight = 75 * scale;
           const gapSmall = 15 * scale;
           boxH = margin + titleLineHeight + gap  // Title area
-               + sectionHeaderH + gapSmall       // "General Upgrades" header
-               + (itemHeight + gapSmall) * 3     // 3 general items
-               + sectionHeaderH + gapSmall       // "Block Upgrades" header
-               + (itemHeight + gapSmall) * 3     // 3 block items (Bit Boosters, Cash Boosters, Explosive Blocks)
+               + sectionHeaderH + gapSmall       // Section headers
+               + (itemHeight + gapSmall) * 7     // 7 block items
+               + btnHeight + margin;             // Back button
+      } else if (this.menuState === 'AUTOBUY') {
+          // Auto-Buyer Height: Title + 3 option rows + upgrade grid + rule rows + back button (see getAutoBuyerLayout)
+          const rowH = 40 * scale;
+          const gapSmall = 10 * scale;
+          const sectionHeaderH = 30 * scale;
+          boxH = margin + titleLineHeight + gap                                   // Title area
+               + (rowH + gapSmall) * 3                                           // Toggle, order, reserve
+               + sectionHeaderH + (rowH + gapSmall) * Math.ceil(MONEY_UPGRADES.length / 2) // Upgrade grid
+               + sectionHeaderH + (rowH + gapSmall) * MAX_AUTO_BUY_LINKS          // Rules
+               + gap + btnHeight + margin;                                       // Back button
+      } else if (this.menuState === 'AUTOPRESTIGE') {
+          // Auto-Prestige Height: Title + 3 option rows + projection line + log + back button (see getAutoPrestigeLayout)
+          const rowH = 40 * scale;
+          const gapSmall = 10 * scale;
+          const sectionHeaderH = 30 * scale;
+          const logRowH = 24 * scale;
+          boxH = margin + titleLineHeight + gap     // Title area
+               + (rowH + gapSmall) * 3             // Toggle, depth, benefit
+               + sectionHeaderH                    // Projection line
+               + sectionHeaderH + logRowH * MAX_PRESTIGE_LOG // Log
+               + gap + btnHeight + margin;         // Back button
+      } else if (this.menuState === 'PRESTIGE') {
+          // Prestige Tree Height: Title + points line + node grid + back button (see getPrestigeTreeLayout)
+          const sectionHeaderH = 30 * scale;
+          const nodeH = 90 * scale;
+          const rowGap = 40 * scale;
+          const rows = Math.max(...PRESTIGE_NODE_IDS.map(node => PRESTIGE_NODES[node].position.row)) + 1;
+          boxH = margin + titleLineHeight + gap   // Title area
+               + sectionHeaderH * 2              // Points and next reward
+               + (nodeH + rowGap) * rows         // Node grid
+               + btnHeight + margin;             // Back button
+      } else if (this.menuState === 'CORE') {
+          // Core Reset Height: Title + 4 info lines + reset (or confirm) row + back button (see getCoreResetLayout)
+          const sectionHeaderH = 30 * scale;
+          boxH = margin + titleLineHeight + gap   // Title area
+               + sectionHeaderH * 4 + gap        // Cores, requirement, reset summary, warning
+               + btnHeight + gap                 // Reset / confirm row
                + btnHeight + margin;             // Back button
+      } else if (this.menuState === 'TRANSFER') {
+          // Transfer Height: Title + 2 sections with a button row each + preview + confirm row + back button (see getTransferLayout)
+          const sectionHeaderH = 30 * scale;
+          const rowH = 40 * scale;
+          const gapSmall = 10 * scale;
+          const lineH = 24 * scale;
+          boxH = margin + titleLineHeight + gap              // Title area
+               + (sectionHeaderH + rowH + gapSmall) * 2     // Export, import
+               + lineH * 5 + gapSmall                       // Message / preview
+               + rowH + gap                                 // Load / cancel
+               + btnHeight + margin;                        // Back button
       } else {
-          // Settings Height: Title + Volume + 3 Toggles + Back + Spacing
-          boxH = 520 * scale;
+          // Settings Height: Title + Volume + 4 Toggles + Physics + Number Format + Seed + Back + Spacing
+          boxH = 700 * scale;
       }
       
       const boxW = btnW + (margin * 2);
-      const boxX = this.canvasWidth / 2 - boxW / 2;
-      const boxY = this.canvasHeight / 2 - boxH / 2;
+      const boxX = this.sim.canvasWidth / 2 - boxW / 2;
+      const boxY = this.sim.canvasHeight / 2 - boxH / 2;
 
       // Y positions relative to canvas
       const titleY = boxY + margin + titleLineHeight / 2;
       const resumeBtnY = boxY + margin + titleLineHeight + gap;
       const shopBtnY = resumeBtnY + btnHeight + gap;
-      const settingsBtnY = shopBtnY + btnHeight + gap;
+      const autoBuyBtnY = shopBtnY + btnHeight + gap;
+      const autoPrestigeBtnY = autoBuyBtnY + btnHeight + gap;
+      const prestigeTreeBtnY = autoPrestigeBtnY + btnHeight + gap;
+      const coreResetBtnY = prestigeTreeBtnY + btnHeight + gap;
+      const settingsBtnY = coreResetBtnY + btnHeight + gap;
       const saveBtnY = settingsBtnY + btnHeight + gap;
+      const transferBtnY = saveBtnY + btnHeight + gap;
       const backBtnY = boxY + boxH - btnHeight - margin;
 
       return {
           scale, margin, gap, btnW, btnHeight, btnX,
           boxX, boxY, boxW, boxH,
-          titleY, resumeBtnY, shopBtnY, settingsBtnY, saveBtnY, backBtnY
+          titleY, resumeBtnY, shopBtnY, autoBuyBtnY, autoPrestigeBtnY, prestigeTreeBtnY, coreResetBtnY, settingsBtnY, saveBtnY, transferBtnY, backBtnY
       };
   }
 
@@ -1645,7 +1635,7 @@ class GameEngine {
     const { scale, boxX, boxY, boxW, boxH } = layout;
 
     context.fillStyle = 'rgba(0, 0, 0, 0.5)'; // Darken background
-    context.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+    context.fillRect(0, 0, this.sim.canvasWidth, this.sim.canvasHeight);
 
     // Rounded Grey Box
     context.fillStyle = 'rgba(50, 50, 50, 0.9)';
@@ -1663,11 +1653,21 @@ class GameEngine {
         this.drawSettings(context, layout);
     } else if (this.menuState === 'SHOP') {
         this.drawShop(context, layout);
+    } else if (this.menuState === 'AUTOBUY') {
+        this.drawAutoBuyer(context, layout);
+    } else if (this.menuState === 'AUTOPRESTIGE') {
+        this.drawAutoPrestige(context, layout);
+    } else if (this.menuState === 'PRESTIGE') {
+        this.drawPrestigeTree(context, layout);
+    } else if (this.menuState === 'CORE') {
+        this.drawCoreReset(context, layout);
+    } else if (this.menuState === 'TRANSFER') {
+        this.drawTransfer(context, layout);
     }
   }
 
   drawPauseMain(context: CanvasRenderingContext2D, layout: MenuLayout) {
-    const { btnX, btnW, btnHeight, resumeBtnY, shopBtnY, settingsBtnY, saveBtnY, titleY, scale, boxY, boxH } = layout;
+    const { btnX, btnW, btnHeight, resumeBtnY, shopBtnY, autoBuyBtnY, autoPrestigeBtnY, prestigeTreeBtnY, coreResetBtnY, settingsBtnY, saveBtnY, transferBtnY, titleY, scale, boxY, boxH } = layout;
     const titleText = "PAUSED";
 
     // Title
@@ -1681,9 +1681,9 @@ class GameEngine {
     context.font = `${48 * scale}px "Fredoka One", cursive`;
     context.strokeStyle = '#1A1A1A'; 
     context.lineWidth = 2 * scale;   
-    context.strokeText(titleText, this.canvasWidth / 2, titleY); 
+    context.strokeText(titleText, this.sim.canvasWidth / 2, titleY); 
     context.fillStyle = 'white'; 
-    context.fillText(titleText, this.canvasWidth / 2, titleY); 
+    context.fillText(titleText, this.sim.canvasWidth / 2, titleY); 
 
     context.shadowBlur = 0; 
     context.shadowOffsetX = 0;
@@ -1710,15 +1710,20 @@ class GameEngine {
         context.shadowColor = 'rgba(0,0,0,0.5)';
         context.shadowBlur = 2 * scale;
         context.textBaseline = 'middle';
-        context.fillText(text, this.canvasWidth / 2, y + (btnHeight / 2) + offset); 
+        context.fillText(text, this.sim.canvasWidth / 2, y + (btnHeight / 2) + offset); 
         context.shadowBlur = 0;
         context.textBaseline = 'alphabetic';
     };
 
     drawButton("RESUME", resumeBtnY, 'resume', '#4caf50', '#2e7d32');
     drawButton("SHOP", shopBtnY, 'shop', '#9c27b0', '#7b1fa2');
+    drawButton("AUTO-BUYER", autoBuyBtnY, 'autobuy', '#009688', '#00695c');
+    drawButton("AUTO-PRESTIGE", autoPrestigeBtnY, 'autoprestige', '#673ab7', '#4527a0');
+    drawButton("PRESTIGE TREE", prestigeTreeBtnY, 'prestigetree', '#e91e63', '#ad1457');
+    drawButton("CORE RESET", coreResetBtnY, 'corereset', '#00bcd4', '#00838f');
     drawButton("SETTINGS", settingsBtnY, 'settings', '#ff9800', '#f57c00');
     drawButton("SAVE GAME", saveBtnY, 'save', '#2196f3', '#1565c0');
+    drawButton("EXPORT / IMPORT", transferBtnY, 'transfer', '#607d8b', '#37474f');
 
     // Notification Text
     if (this.notificationTimer > 0) {
@@ -1726,8 +1731,8 @@ class GameEngine {
         const alpha = Math.min(1, this.notificationTimer / 500);
         context.globalAlpha = alpha;
 
-        // Positioned below the Save button (centered in the remaining space)
-        const bottomSpaceStart = saveBtnY + btnHeight;
+        // Positioned below the Export/Import button (centered in the remaining space)
+        const bottomSpaceStart = transferBtnY + btnHeight;
         const bottomSpaceEnd = boxY + boxH;
         const notifY = (bottomSpaceStart + bottomSpaceEnd) / 2;
 
@@ -1742,7 +1747,7 @@ class GameEngine {
         const padding = 20 * scale;
         const notifBoxWidth = Math.min(textWidth + padding * 2, btnW); // Cap at button width
         const notifBoxHeight = 40 * scale;
-        const notifBoxX = (this.canvasWidth - notifBoxWidth) / 2;
+        const notifBoxX = (this.sim.canvasWidth - notifBoxWidth) / 2;
         const notifBoxY = notifY - notifBoxHeight / 2;
 
         // Draw background with shadow
@@ -1762,7 +1767,7 @@ class GameEngine {
 
         // Draw text
         context.fillStyle = 'white';
-        context.fillText(this.notificationText, this.canvasWidth / 2, notifY);
+        context.fillText(this.notificationText, this.sim.canvasWidth / 2, notifY);
 
         context.restore();
     }
@@ -1786,9 +1791,9 @@ class GameEngine {
     context.font = `${48 * scale}px "Fredoka One", cursive`;
     context.strokeStyle = '#1A1A1A'; 
     context.lineWidth = 2 * scale;   
-    context.strokeText(titleText, this.canvasWidth / 2, titleY); 
+    context.strokeText(titleText, this.sim.canvasWidth / 2, titleY); 
     context.fillStyle = 'white'; 
-    context.fillText(titleText, this.canvasWidth / 2, titleY); 
+    context.fillText(titleText, this.sim.canvasWidth / 2, titleY); 
 
     context.shadowBlur = 0; 
     context.shadowOffsetX = 0;
@@ -1860,7 +1865,7 @@ class GameEngine {
         context.font = `${24 * scale}px "Fredoka One", cursive`;
         context.textAlign = 'center';
         context.textBaseline = 'middle';
-        context.fillText(`${text}: ${status}`, this.canvasWidth/2, y + toggleH/2 + offset);
+        context.fillText(`${text}: ${status}`, this.sim.canvasWidth/2, y + toggleH/2 + offset);
     };
 
     const hpY = startY + 40 * scale + gapSmall;
@@ -1872,6 +1877,56 @@ class GameEngine {
     const bounceY = blocksY + toggleH + gapSmall;
     drawToggle("Bounce SFX", this.settings.sfxBounce, bounceY, 'toggle_bounce');
 
+    const ballsY = bounceY + toggleH + gapSmall;
+    drawToggle("Ball Collisions", this.sim.ballCollisions, ballsY, 'toggle_balls');
+
+    // 3. Physics Sub-Steps (cycles through SUB_STEP_OPTIONS on click)
+    const physicsY = ballsY + toggleH + gapSmall;
+    const physicsOffset = (this.activeButton === 'cycle_substeps') ? 3 * scale : 0;
+
+    context.fillStyle = '#1976d2';
+    context.beginPath();
+    context.roundRect(btnX, physicsY + (5 * scale), toggleW, toggleH, 5 * scale);
+    context.fill();
+
+    context.fillStyle = '#2196f3';
+    context.beginPath();
+    context.roundRect(btnX, physicsY + physicsOffset, toggleW, toggleH, 5 * scale);
+    context.fill();
+
+    context.fillStyle = 'white';
+    context.font = `${24 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(`Physics: ${this.sim.subSteps} sub-steps`, this.sim.canvasWidth / 2, physicsY + toggleH / 2 + physicsOffset);
+
+    // 4. Number Format (cycles through the notations on click)
+    const numbersY = physicsY + toggleH + gapSmall;
+    const numbersOffset = (this.activeButton === 'cycle_numbers') ? 3 * scale : 0;
+    const notation = NUMBER_NOTATIONS[this.settings.numberFormat];
+
+    context.fillStyle = '#1976d2';
+    context.beginPath();
+    context.roundRect(btnX, numbersY + (5 * scale), toggleW, toggleH, 5 * scale);
+    context.fill();
+
+    context.fillStyle = '#2196f3';
+    context.beginPath();
+    context.roundRect(btnX, numbersY + numbersOffset, toggleW, toggleH, 5 * scale);
+    context.fill();
+
+    context.fillStyle = 'white';
+    context.font = `${24 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(`Numbers: ${notation.name} (${notation.example})`, this.sim.canvasWidth / 2, numbersY + toggleH / 2 + numbersOffset);
+
+    // World Seed (share it via ?seed= to dig the same shaft)
+    context.fillStyle = '#aaa';
+    context.font = `${18 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(`Seed: ${this.sim.rng.seed}`, this.sim.canvasWidth / 2, numbersY + toggleH + (30 * scale));
 
     // Back Button (Bottom)
     const offset = (this.activeButton === 'back') ? 3 * scale : 0; 
@@ -1893,73 +1948,44 @@ class GameEngine {
     context.shadowColor = 'rgba(0,0,0,0.5)';
     context.shadowBlur = 2 * scale;
     context.textBaseline = 'middle';
-    context.fillText("BACK", this.canvasWidth / 2, backBtnY + (btnHeight / 2) + offset); 
+    context.fillText("BACK", this.sim.canvasWidth / 2, backBtnY + (btnHeight / 2) + offset); 
     context.shadowBlur = 0;
     
     context.textBaseline = 'alphabetic';
   }
 
-  getShopPrices() {
-      return {
-          damage: Math.floor(100 * Math.pow(1.5, this.upgrades.damage - 1)),
-          gravity: Math.floor(50 * Math.pow(1.4, this.upgrades.gravity - 1)),
-          efficiency: Math.floor(200 * Math.pow(1.6, this.upgrades.efficiency - 1)),
-          // Block Upgrades (max level 10)
-          bitBoosters: this.upgrades.bitBoosters >= 10 ? Infinity : Math.floor(150 * Math.pow(1.5, this.upgrades.bitBoosters)),
-          explosiveBlocks: this.upgrades.explosiveBlocks >= 10 ? Infinity : Math.floor(150 * Math.pow(1.5, this.upgrades.explosiveBlocks)),
-          cashBoosters: this.upgrades.cashBoosters >= 10 ? Infinity : Math.floor(150 * Math.pow(1.5, this.upgrades.cashBoosters))
-      };
-  }
-
-  buyUpgrade(type: 'damage' | 'gravity' | 'efficiency' | 'bitBoosters' | 'explosiveBlocks' | 'cashBoosters'): boolean {
-      const prices = this.getShopPrices();
-      const cost = prices[type];
-
-      // Check max level for block upgrades
-      if ((type === 'bitBoosters' || type === 'explosiveBlocks' || type === 'cashBoosters') && this.upgrades[type] >= 10) {
+  buyUpgrade(type: UpgradeType): boolean {
+      if (this.sim.isUpgradeMaxed(type)) {
           this.showNotification("Max level reached!");
           return false;
       }
 
-      if (this.money >= cost) {
-          this.money -= cost;
-          this.upgrades[type]++;
-
-          // Apply Upgrade Effects Immediately to all balls
-          if (type === 'damage') {
-              for (const ball of this.balls) {
-                  ball.damage = this.upgrades.damage; // Simple linear scaling
-              }
-          } else if (type === 'gravity') {
-              const radius = this.rowHeight / 1.5;
-              const gravityMult = 1 + (this.upgrades.gravity - 1) * 0.1;
-              for (const ball of this.balls) {
-                  ball.gravity = radius * 0.02 * gravityMult;
-              }
-          } else if (type === 'bitBoosters' || type === 'explosiveBlocks' || type === 'cashBoosters') {
-              // Re-roll existing blocks to apply new upgrade immediately
-              this.rerollExistingBlocks();
-          }
+      // Ore upgrades are cheap to click through, so bulk modes only apply to money upgrades
+      const amount = isOreUpgrade(type) ? 1 : this.purchaseAmount;
+      const levelBefore = this.sim.upgrades[type];
 
-          // Map upgrade type to display name
-          const upgradeNames: Record<typeof type, string> = {
-              damage: 'Drill Bit',
-              gravity: 'Engine',
-              efficiency: 'Scanner',
-              bitBoosters: 'Bit Boosters',
-              explosiveBlocks: 'Explosive Blocks',
-              cashBoosters: 'Cash Boosters'
-          };
+      if (this.sim.buyUpgrade(type, amount)) {
+          this.recorder?.recordPurchase(type, amount);
+          const levelsBought = this.sim.upgrades[type] - levelBefore;
 
-          this.showNotification(`Upgraded ${upgradeNames[type]}!`);
+          this.showNotification(levelsBought > 1 ? `Upgraded ${UPGRADE_NAMES[type]} x${levelsBought}!` : `Upgraded ${UPGRADE_NAMES[type]}!`);
           this.saveGame(); // Auto-save on purchase
           return true;
       } else {
-          this.showNotification("Not enough money!");
+          this.showNotification(isOreUpgrade(type) ? "Not enough ore!" : "Not enough money!");
           return false;
       }
   }
 
+  // Purchase mode buttons (x1 / x10 / x100 / MAX) on the left of the shop title row
+  getPurchaseModeButtons(layout: MenuLayout): { amount: PurchaseAmount; x: number; y: number; w: number; h: number }[] {
+      const { btnX, titleY, scale } = layout;
+      const w = 60 * scale;
+      const h = 34 * scale;
+      const gap = 8 * scale;
+      return PURCHASE_AMOUNTS.map((amount, i) => ({ amount, x: btnX + i * (w + gap), y: titleY - h / 2, w, h }));
+  }
+
   drawShop(context: CanvasRenderingContext2D, layout: MenuLayout) {
     const { btnX, btnW, btnHeight, backBtnY, titleY, scale, boxY, boxH, margin, gap } = layout;
     const titleText = "SHOP";
@@ -1975,9 +2001,9 @@ class GameEngine {
     context.font = `${48 * scale}px "Fredoka One", cursive`;
     context.strokeStyle = '#1A1A1A';
     context.lineWidth = 2 * scale;
-    context.strokeText(titleText, this.canvasWidth / 2, titleY);
+    context.strokeText(titleText, this.sim.canvasWidth / 2, titleY);
     context.fillStyle = 'white';
-    context.fillText(titleText, this.canvasWidth / 2, titleY);
+    context.fillText(titleText, this.sim.canvasWidth / 2, titleY);
 
     context.shadowBlur = 0;
     context.shadowOffsetX = 0;
@@ -1987,14 +2013,34 @@ class GameEngine {
     context.font = `${24 * scale}px "Fredoka One", cursive`;
     context.textAlign = 'right';
     context.fillStyle = '#FFD700'; // Gold
-    context.fillText(`$${this.money}`, btnX + btnW, titleY);
+    context.fillText(`$${this.format(this.sim.money)}`, btnX + btnW, titleY);
+
+    // Purchase Mode (Top Left of Box)
+    for (const button of this.getPurchaseModeButtons(layout)) {
+        const btnId = `mode_${button.amount}`;
+        const isSelected = this.purchaseAmount === button.amount;
+        const offset = (this.activeButton === btnId) ? 2 * scale : 0;
+
+        context.fillStyle = isSelected ? '#4caf50' : '#444';
+        context.beginPath();
+        context.roundRect(button.x, button.y + offset, button.w, button.h, 5 * scale);
+        context.fill();
+
+        context.fillStyle = isSelected ? 'white' : '#aaa';
+        context.font = `${16 * scale}px "Fredoka One", cursive`;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(button.amount === 'max' ? 'MAX' : `x${button.amount}`, button.x + button.w / 2, button.y + button.h / 2 + offset);
+    }
 
     // --- Layout Constants ---
     const sectionHeaderH = 30 * scale;
     const itemHeight = 75 * scale;
     const gapSmall = 15 * scale;
-    const prices = this.getShopPrices();
-    let currentY = boxY + margin + (60 * scale) + gap;
+    const columnW = (btnW - gap) / 2;
+    const columnTopY = boxY + margin + (60 * scale) + gap;
+    let columnX = btnX;
+    let currentY = columnTopY;
 
     // --- Helper: Draw Section Header ---
     const drawSectionHeader = (text: string) => {
@@ -2002,7 +2048,7 @@ class GameEngine {
         context.font = `${18 * scale}px "Fredoka One", cursive`;
         context.textAlign = 'left';
         context.textBaseline = 'middle';
-        context.fillText(text, btnX, currentY + sectionHeaderH / 2);
+        context.fillText(text, columnX, currentY + sectionHeaderH / 2);
         currentY += sectionHeaderH + gapSmall;
     };
 
@@ -2015,7 +2061,7 @@ class GameEngine {
         // Item Box Background
         context.fillStyle = 'rgba(255, 255, 255, 0.1)';
         context.beginPath();
-        context.roundRect(btnX, y, btnW, itemHeight, 5 * scale);
+        context.roundRect(columnX, y, columnW, itemHeight, 5 * scale);
         context.fill();
 
         if (this.activeButton === btnId) {
@@ -2024,26 +2070,26 @@ class GameEngine {
             context.stroke();
         }
 
-        const level = this.upgrades[type];
-        const cost = prices[type];
-        const canAfford = this.money >= cost;
+        const level = this.sim.upgrades[type];
+        const { levels, cost } = this.sim.getBulkPurchase(type, this.purchaseAmount);
+        const canAfford = this.sim.money >= cost;
 
-        // Name & Level
+        // Name & Level (plus the levels this click buys in bulk modes)
         context.textAlign = 'left';
         context.textBaseline = 'top';
         context.fillStyle = 'white';
         context.font = `${22 * scale}px "Fredoka One", cursive`;
-        context.fillText(`${name} (Lvl ${level})`, btnX + 10 * scale, y + 10 * scale);
+        context.fillText(`${name} (Lvl ${level}${levels > 1 ? ` +${levels}` : ''})`, columnX + 10 * scale, y + 10 * scale);
 
         // Effect description
         context.fillStyle = '#aaa';
         context.font = `${16 * scale}px "Fredoka One", cursive`;
-        context.fillText(effect, btnX + 10 * scale, y + 40 * scale);
+        context.fillText(effect, columnX + 10 * scale, y + 40 * scale);
 
         // Buy Button
         const buyBtnW = 100 * scale;
         const buyBtnH = 40 * scale;
-        const buyBtnX = btnX + btnW - buyBtnW - 10 * scale;
+        const buyBtnX = columnX + columnW - buyBtnW - 10 * scale;
         const buyBtnY = y + (itemHeight - buyBtnH) / 2;
 
         context.fillStyle = canAfford ? '#4caf50' : '#555';
@@ -2055,28 +2101,28 @@ class GameEngine {
         context.textBaseline = 'middle';
         context.fillStyle = canAfford ? 'white' : '#888';
         context.font = `${18 * scale}px "Fredoka One", cursive`;
-        context.fillText(`$${cost}`, buyBtnX + buyBtnW / 2, buyBtnY + buyBtnH / 2);
+        context.fillText(`$${this.format(cost)}`, buyBtnX + buyBtnW / 2, buyBtnY + buyBtnH / 2);
 
         currentY += itemHeight + gapSmall;
     };
 
     // --- Helper: Draw Block Upgrade Item ---
-    const drawBlockItem = (name: string, type: 'bitBoosters' | 'explosiveBlocks' | 'cashBoosters', description: string, glowColor: string) => {
+    const drawBlockItem = (name: string, type: BlockUpgradeType, description: string, glowColor: string) => {
         const btnId = `buy_${type}`;
         const offset = (this.activeButton === btnId) ? 2 * scale : 0;
         const y = currentY + offset;
 
-        const level = this.upgrades[type];
-        const maxLevel = 10;
+        const level = this.sim.upgrades[type];
+        const maxLevel = this.sim.getBlockUpgradeMaxLevel();
         const isMaxed = level >= maxLevel;
-        const cost = prices[type];
-        const canAfford = !isMaxed && this.money >= cost;
+        const { levels, cost } = this.sim.getBulkPurchase(type, this.purchaseAmount);
+        const canAfford = !isMaxed && this.sim.money >= cost;
         const spawnChance = level * 1; // 1% per level
 
         // Item Box Background
         context.fillStyle = 'rgba(255, 255, 255, 0.1)';
         context.beginPath();
-        context.roundRect(btnX, y, btnW, itemHeight, 5 * scale);
+        context.roundRect(columnX, y, columnW, itemHeight, 5 * scale);
         context.fill();
 
         // Glow border to indicate block type color
@@ -2095,18 +2141,81 @@ class GameEngine {
         context.textBaseline = 'top';
         context.fillStyle = 'white';
         context.font = `${22 * scale}px "Fredoka One", cursive`;
-        context.fillText(`${name} (${level}/${maxLevel})`, btnX + 10 * scale, y + 10 * scale);
+        context.fillText(`${name} (${level}/${maxLevel}${levels > 1 ? ` +${levels}` : ''})`, columnX + 10 * scale, y + 10 * scale);
 
         // Description and spawn chance
         context.fillStyle = '#aaa';
         context.font = `${16 * scale}px "Fredoka One", cursive`;
         const effectText = level > 0 ? `${spawnChance}% chance - ${description}` : `Unlock: ${description}`;
-        context.fillText(effectText, btnX + 10 * scale, y + 40 * scale);
+        context.fillText(effectText, columnX + 10 * scale, y + 40 * scale);
+
+        // Buy Button
+        const buyBtnW = 100 * scale;
+        const buyBtnH = 40 * scale;
+        const buyBtnX = columnX + columnW - buyBtnW - 10 * scale;
+        const buyBtnY = y + (itemHeight - buyBtnH) / 2;
+
+        context.fillStyle = isMaxed ? '#333' : (canAfford ? '#4caf50' : '#555');
+        context.beginPath();
+        context.roundRect(buyBtnX, buyBtnY, buyBtnW, buyBtnH, 5 * scale);
+        context.fill();
+
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillStyle = isMaxed ? '#666' : (canAfford ? 'white' : '#888');
+        context.font = `${18 * scale}px "Fredoka One", cursive`;
+        context.fillText(isMaxed ? 'MAX' : `$${this.format(cost)}`, buyBtnX + buyBtnW / 2, buyBtnY + buyBtnH / 2);
+
+        currentY += itemHeight + gapSmall;
+    };
+
+    // --- Helper: Draw Ore Upgrade Item (paid with resources) ---
+    const orePrices = this.sim.getOrePrices();
+    const drawOreItem = (name: string, type: OreUpgradeType, effect: string) => {
+        const btnId = `buy_${type}`;
+        const offset = (this.activeButton === btnId) ? 2 * scale : 0;
+        const y = currentY + offset;
+
+        const level = this.sim.upgrades[type];
+        const maxLevel = ORE_UPGRADE_MAX_LEVEL;
+        const isMaxed = level >= maxLevel;
+        const canAfford = !isMaxed && this.sim.canAffordUpgrade(type);
+
+        // Item Box Background
+        context.fillStyle = 'rgba(255, 255, 255, 0.1)';
+        context.beginPath();
+        context.roundRect(columnX, y, columnW, itemHeight, 5 * scale);
+        context.fill();
+
+        if (this.activeButton === btnId) {
+            context.strokeStyle = 'yellow';
+            context.lineWidth = 4 * scale;
+            context.stroke();
+        }
+
+        // Name & Level
+        context.textAlign = 'left';
+        context.textBaseline = 'top';
+        context.fillStyle = 'white';
+        context.font = `${22 * scale}px "Fredoka One", cursive`;
+        context.fillText(`${name} (${level}/${maxLevel})`, columnX + 10 * scale, y + 8 * scale);
+
+        // Effect
+        context.fillStyle = '#aaa';
+        context.font = `${16 * scale}px "Fredoka One", cursive`;
+        context.fillText(effect, columnX + 10 * scale, y + 34 * scale);
+
+        // Ore cost
+        if (!isMaxed) {
+            context.fillStyle = '#C9A66B';
+            context.font = `${13 * scale}px "Fredoka One", cursive`;
+            context.fillText(formatResourceCost(orePrices[type], this.settings.numberFormat), columnX + 10 * scale, y + 54 * scale);
+        }
 
         // Buy Button
         const buyBtnW = 100 * scale;
         const buyBtnH = 40 * scale;
-        const buyBtnX = btnX + btnW - buyBtnW - 10 * scale;
+        const buyBtnX = columnX + columnW - buyBtnW - 10 * scale;
         const buyBtnY = y + (itemHeight - buyBtnH) / 2;
 
         context.fillStyle = isMaxed ? '#333' : (canAfford ? '#4caf50' : '#555');
@@ -2118,22 +2227,34 @@ class GameEngine {
         context.textBaseline = 'middle';
         context.fillStyle = isMaxed ? '#666' : (canAfford ? 'white' : '#888');
         context.font = `${18 * scale}px "Fredoka One", cursive`;
-        context.fillText(isMaxed ? 'MAX' : `$${cost}`, buyBtnX + buyBtnW / 2, buyBtnY + buyBtnH / 2);
+        context.fillText(isMaxed ? 'MAX' : 'BUY', buyBtnX + buyBtnW / 2, buyBtnY + buyBtnH / 2);
 
         currentY += itemHeight + gapSmall;
     };
 
     // === GENERAL UPGRADES SECTION ===
     drawSectionHeader('GENERAL UPGRADES');
-    drawGeneralItem("Drill Bit", 'damage', `Damage: ${this.upgrades.damage}`);
-    drawGeneralItem("Engine", 'gravity', `Speed: +${Math.round((this.upgrades.gravity - 1) * 10)}%`);
-    drawGeneralItem("Scanner", 'efficiency', `Value: +${Math.round((this.upgrades.efficiency - 1) * 20)}%`);
+    drawGeneralItem("Drill Bit", 'damage', `Damage: ${this.sim.upgrades.damage}`);
+    drawGeneralItem("Engine", 'gravity', `Speed: +${Math.round((this.sim.upgrades.gravity - 1) * 10)}%`);
+    drawGeneralItem("Scanner", 'efficiency', `Value: +${Math.round((this.sim.upgrades.efficiency - 1) * 20)}%`);
+
+    // === ORE UPGRADES SECTION (below general) ===
+    drawSectionHeader('ORE UPGRADES');
+    drawOreItem("Armor Piercing", 'armorPiercing', `Ignores ${this.sim.upgrades.armorPiercing} armor`);
+    drawOreItem("Prospector", 'prospecting', `Ore chance: +${this.sim.upgrades.prospecting * 25}%`);
+    drawOreItem("Refinery", 'refinery', `Value: +${this.sim.upgrades.refinery * 10}%`);
 
     // === BLOCK UPGRADES SECTION ===
+    columnX = btnX + columnW + gap;
+    currentY = columnTopY;
     drawSectionHeader('BLOCK UPGRADES');
     drawBlockItem("Bit Boosters", 'bitBoosters', '2x damage for 5s', '#FFA500');
     drawBlockItem("Cash Boosters", 'cashBoosters', '2x money for 5s', '#00CC00');
     drawBlockItem("Explosive Blocks", 'explosiveBlocks', 'Destroy neighbors', '#FF4444');
+    drawBlockItem("Lightning Blocks", 'lightningBlocks', 'Zap the whole row', '#FFEE00');
+    drawBlockItem("Multiball Blocks", 'multiballBlocks', 'Extra ball for 10s', '#0096FF');
+    drawBlockItem("Magnet Blocks", 'magnetBlocks', 'Pull balls for 4s', '#B000FF');
+    drawBlockItem("Freeze Blocks", 'freezeBlocks', 'Neighbors drop to 1 HP', '#A0E8FF');
 
     // Back Button (Bottom)
     const offset = (this.activeButton === 'back') ? 3 * scale : 0;
@@ -2153,7 +2274,7 @@ class GameEngine {
     context.shadowColor = 'rgba(0,0,0,0.5)';
     context.shadowBlur = 2 * scale;
     context.textBaseline = 'middle';
-    context.fillText("BACK", this.canvasWidth / 2, backBtnY + (btnHeight / 2) + offset);
+    context.fillText("BACK", this.sim.canvasWidth / 2, backBtnY + (btnHeight / 2) + offset);
     context.shadowBlur = 0;
 
     // Notification Text
@@ -2178,7 +2299,7 @@ class GameEngine {
         const padding = 20 * scale;
         const notifBoxWidth = Math.min(textWidth + padding * 2, btnW); // Cap at button width
         const notifBoxHeight = 40 * scale;
-        const notifBoxX = (this.canvasWidth - notifBoxWidth) / 2;
+        const notifBoxX = (this.sim.canvasWidth - notifBoxWidth) / 2;
         const notifBoxY = notifY - notifBoxHeight / 2;
 
         // Draw background with shadow
@@ -2198,7 +2319,7 @@ class GameEngine {
 
         // Draw text
         context.fillStyle = 'white';
-        context.fillText(this.notificationText, this.canvasWidth / 2, notifY);
+        context.fillText(this.notificationText, this.sim.canvasWidth / 2, notifY);
 
         context.restore();
     }
@@ -2206,106 +2327,936 @@ class GameEngine {
     context.textBaseline = 'alphabetic';
   }
 
-  togglePause() {
-      if (this.gameState === 'PLAYING') {
-          this.gameState = 'PAUSED';
-          this.menuState = 'MAIN'; // Always open to main menu
-          // Clear any in-game notifications (like offline progress) when pausing
-          this.notificationTimer = 0;
-          this.notificationText = "";
-      } else if (this.gameState === 'PAUSED') {
-          this.gameState = 'PLAYING';
-          this.activeButton = null; // Reset mouse state on resume
+  // Rows and buttons of the auto-buyer menu, shared by drawAutoBuyer and handleInput
+  getAutoBuyerLayout(layout: MenuLayout) {
+      const { btnX, btnW, boxY, margin, gap, scale } = layout;
+      const config = this.autoBuyer.config;
+      const unlocked = AutoBuyer.isUnlocked(this.sim);
+      const rowH = 40 * scale;
+      const gapSmall = 10 * scale;
+      const sectionHeaderH = 30 * scale;
+      const cycle = <T,>(list: readonly T[], current: T): T => list[(list.indexOf(current) + 1) % list.length];
+      const buttons: MenuButton[] = [];
+      let y = boxY + margin + (60 * scale) + gap;
+
+      // On/off switch, locked until the first prestige (rules can still be set up beforehand)
+      buttons.push({
+          id: 'ab_toggle', x: btnX, y, w: btnW, h: rowH,
+          label: unlocked ? `Auto-Buyer: ${config.enabled ? 'ON' : 'OFF'}` : 'LOCKED - Prestige once to unlock',
+          color: !unlocked ? '#555' : (config.enabled ? '#4caf50' : '#f44336'),
+          onClick: () => { if (unlocked) config.enabled = !config.enabled; }
+      });
+      y += rowH + gapSmall;
+
+      buttons.push({
+          id: 'ab_strategy', x: btnX, y, w: btnW, h: rowH,
+          label: `Order: ${AUTO_BUY_STRATEGIES[config.strategy].name}`,
+          color: '#2196f3',
+          onClick: () => { config.strategy = cycle(AUTO_BUY_STRATEGY_IDS, config.strategy); }
+      });
+      y += rowH + gapSmall;
+
+      // Reserve steps through 0, $100, $1K, $10K...
+      const reserve = parseMoney(config.reserve);
+      const reserveY = y + rowH / 2;
+      buttons.push({
+          id: 'ab_reserve_down', x: btnX, y, w: rowH, h: rowH, label: '-', color: '#607d8b',
+          onClick: () => { config.reserve = (reserve > 100n ? reserve / 10n : 0n).toString(); }
+      });
+      buttons.push({
+          id: 'ab_reserve_up', x: btnX + btnW - rowH, y, w: rowH, h: rowH, label: '+', color: '#607d8b',
+          onClick: () => { config.reserve = (reserve === 0n ? 100n : reserve * 10n).toString(); }
+      });
+      y += rowH + gapSmall;
+
+      // Which upgrades it may buy, two per row
+      const upgradesHeaderY = y + sectionHeaderH / 2;
+      y += sectionHeaderH;
+      const cellW = (btnW - gapSmall) / 2;
+      MONEY_UPGRADES.forEach((type, i) => {
+          buttons.push({
+              id: `ab_upgrade_${type}`,
+              x: btnX + (i % 2) * (cellW + gapSmall), y: y + Math.floor(i / 2) * (rowH + gapSmall), w: cellW, h: rowH,
+              label: UPGRADE_NAMES[type],
+              color: config.upgrades[type] ? '#4caf50' : '#444',
+              onClick: () => { config.upgrades[type] = !config.upgrades[type]; }
+          });
+      });
+      y += Math.ceil(MONEY_UPGRADES.length / 2) * (rowH + gapSmall);
+
+      // Link rules: [Engine] [within 5] [of Drill Bit] [X], clicking a part cycles it
+      const rulesHeaderY = y + sectionHeaderH / 2;
+      y += sectionHeaderH;
+      config.links.forEach((link, i) => {
+          const partY = y + i * (rowH + gapSmall);
+          const upgradeW = btnW * 0.33;
+          const withinW = btnW * 0.18;
+          const removeW = rowH;
+          const targetW = btnW - upgradeW - withinW - removeW - gapSmall * 3;
+          let partX = btnX;
+          buttons.push({
+              id: `ab_link_${i}_upgrade`, x: partX, y: partY, w: upgradeW, h: rowH,
+              label: UPGRADE_NAMES[link.upgrade], color: '#009688',
+              onClick: () => { link.upgrade = cycle(MONEY_UPGRADES, link.upgrade); }
+          });
+          partX += upgradeW + gapSmall;
+          buttons.push({
+              id: `ab_link_${i}_within`, x: partX, y: partY, w: withinW, h: rowH,
+              label: `within ${link.within}`, color: '#00796b',
+              onClick: () => { link.within = cycle(LINK_DISTANCES, link.within); }
+          });
+          partX += withinW + gapSmall;
+          buttons.push({
+              id: `ab_link_${i}_target`, x: partX, y: partY, w: targetW, h: rowH,
+              label: `of ${UPGRADE_NAMES[link.target]}`, color: '#009688',
+              onClick: () => { link.target = cycle(MONEY_UPGRADES, link.target); }
+          });
+          partX += targetW + gapSmall;
+          buttons.push({
+              id: `ab_link_${i}_remove`, x: partX, y: partY, w: removeW, h: rowH,
+              label: 'X', color: '#f44336',
+              onClick: () => { config.links.splice(i, 1); }
+          });
+      });
+      if (config.links.length < MAX_AUTO_BUY_LINKS) {
+          buttons.push({
+              id: 'ab_link_add', x: btnX, y: y + config.links.length * (rowH + gapSmall), w: btnW, h: rowH,
+              label: '+ ADD RULE', color: '#555',
+              onClick: () => { config.links.push({ upgrade: 'gravity', target: 'damage', within: 5 }); }
+          });
       }
+
+      return { reserve, reserveY, upgradesHeaderY, rulesHeaderY, buttons };
   }
 
-  handleInput(type: string, x: number, y: number) {
-    const scale = Math.min(this.canvasWidth, this.canvasHeight) / 1000;
-    
-    // Reset hover state by default (will be set to true if inside a button)
-    if (type === 'mousemove') {
-        this.isHoveringButton = false;
-        this.prestigeButtonHovered = false;
-    }
+  drawAutoBuyer(context: CanvasRenderingContext2D, layout: MenuLayout) {
+    const { btnX, btnW, btnHeight, backBtnY, titleY, scale } = layout;
+    const { reserve, reserveY, upgradesHeaderY, rulesHeaderY, buttons } = this.getAutoBuyerLayout(layout);
+    const titleText = "AUTO-BUYER";
 
-    if (this.gameState === 'MENU') {
-        const btnW = 200 * scale;
-        const btnH = 50 * scale;
-        const boxH = 250 * scale;
-        const boxY = this.canvasHeight / 2 - boxH / 2 - (180 * scale);
-        
-        const titleLineHeight = 50 * scale;
-        const btnHeight = 55 * scale;
-        const gap = 25 * scale;
-        const totalContentHeight = titleLineHeight * 2 + gap + btnHeight; 
-        const centerY = boxY + boxH / 2;
-        const startY = centerY - totalContentHeight / 2 - (15 * scale);
-        const btnY = startY + titleLineHeight * 2 + gap;
+    // Title
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    context.shadowBlur = 8 * scale;
+    context.shadowOffsetX = 3 * scale;
+    context.shadowOffsetY = 3 * scale;
 
-        const btnX = this.canvasWidth / 2 - btnW / 2;
+    context.font = `${48 * scale}px "Fredoka One", cursive`;
+    context.strokeStyle = '#1A1A1A';
+    context.lineWidth = 2 * scale;
+    context.strokeText(titleText, this.sim.canvasWidth / 2, titleY);
+    context.fillStyle = 'white';
+    context.fillText(titleText, this.sim.canvasWidth / 2, titleY);
 
-        const insideBtn = x >= btnX && x <= btnX + btnW && y >= btnY && y <= btnY + btnH + (5 * scale);
+    context.shadowBlur = 0;
+    context.shadowOffsetX = 0;
+    context.shadowOffsetY = 0;
 
-        if (insideBtn) {
-            if (type === 'mousemove') this.isHoveringButton = true;
-            
-            if (type === 'mousedown') {
-                this.activeButton = 'start';
-            } else if (type === 'mouseup' && this.activeButton === 'start') {
-                // Initialize Audio
-                SoundManager.resume();
-
-                // Try Load first
-                const loaded = this.loadGame();
-                
-                if (!loaded) {
-                    this.gameState = 'PLAYING';
-
-                    // Scale initial velocity by radius to keep gameplay consistent across sizes
-                    const radius = this.rowHeight / 1.5;
-                    for (const ball of this.balls) {
-                        ball.dx = (Math.random() - 0.5) * (radius * 0.15); // Scaled horizontal speed
-                        ball.dy = radius * 0.4; // Stronger vertical speed (0.4)
-                    }
-                } else {
-                    this.gameState = 'PLAYING';
-                }
-                
-                this.activeButton = null;
-            }
-        } else {
-            if (type === 'mouseup') this.activeButton = null;
-        }
-    } else if (this.gameState === 'PAUSED') {
-        const layout = this.getPauseMenuLayout();
-        const { btnX, btnW, btnHeight, resumeBtnY, shopBtnY, settingsBtnY, saveBtnY, backBtnY, scale, boxY, margin, gap } = layout;
+    this.drawMenuButtons(context, buttons, scale);
 
-        if (this.menuState === 'MAIN') {
-            // Check Resume
-            const insideResume = x >= btnX && x <= btnX + btnW && y >= resumeBtnY && y <= resumeBtnY + btnHeight + (5 * scale);
-            // Check Shop
-            const insideShop = x >= btnX && x <= btnX + btnW && y >= shopBtnY && y <= shopBtnY + btnHeight + (5 * scale);
-            // Check Settings
-            const insideSettings = x >= btnX && x <= btnX + btnW && y >= settingsBtnY && y <= settingsBtnY + btnHeight + (5 * scale);
-            // Check Save
-            const insideSave = x >= btnX && x <= btnX + btnW && y >= saveBtnY && y <= saveBtnY + btnHeight + (5 * scale);
+    // Reserve (between its - and + buttons)
+    context.fillStyle = '#FFD700';
+    context.font = `${20 * scale}px "Fredoka One", cursive`;
+    context.fillText(reserve > 0n ? `Never spend below $${this.format(reserve)}` : 'Spend everything', this.sim.canvasWidth / 2, reserveY);
 
-            if (insideResume) {
-                if (type === 'mousemove') this.isHoveringButton = true;
-                if (type === 'mousedown') {
-                    this.activeButton = 'resume';
-                } else if (type === 'mouseup' && this.activeButton === 'resume') {
-                    this.togglePause();
-                    this.activeButton = null;
-                }
-            }
-            else if (insideShop) {
-                if (type === 'mousemove') this.isHoveringButton = true;
-                if (type === 'mousedown') {
-                    this.activeButton = 'shop';
-                } else if (type === 'mouseup' && this.activeButton === 'shop') {
-                    this.shopOpenedFromHUD = false; // Opened from pause menu, not HUD
-                    this.menuState = 'SHOP';
+    // Section Headers
+    context.fillStyle = '#888';
+    context.font = `${18 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'left';
+    context.fillText('BUY THESE UPGRADES', btnX, upgradesHeaderY);
+    context.fillText('KEEP LEVELS CLOSE', btnX, rulesHeaderY);
+
+    // Back Button (Bottom)
+    const offset = (this.activeButton === 'back') ? 3 * scale : 0;
+
+    context.fillStyle = '#d32f2f';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + (5 * scale), btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = '#f44336';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + offset, btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = 'white';
+    context.font = `${30 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.shadowColor = 'rgba(0,0,0,0.5)';
+    context.shadowBlur = 2 * scale;
+    context.fillText("BACK", this.sim.canvasWidth / 2, backBtnY + (btnHeight / 2) + offset);
+    context.shadowBlur = 0;
+
+    context.textBaseline = 'alphabetic';
+  }
+
+  drawMenuButtons(context: CanvasRenderingContext2D, buttons: MenuButton[], scale: number) {
+    for (const button of buttons) {
+        const offset = (this.activeButton === button.id) ? 2 * scale : 0;
+
+        context.fillStyle = button.color;
+        context.beginPath();
+        context.roundRect(button.x, button.y + offset, button.w, button.h, 5 * scale);
+        context.fill();
+
+        context.fillStyle = 'white';
+        context.font = `${18 * scale}px "Fredoka One", cursive`;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(button.label, button.x + button.w / 2, button.y + button.h / 2 + offset);
+    }
+  }
+
+  // Rows and buttons of the auto-prestige menu, shared by drawAutoPrestige and handleInput
+  getAutoPrestigeLayout(layout: MenuLayout) {
+      const { btnX, btnW, boxY, margin, gap, scale } = layout;
+      const config = this.autoPrestige.config;
+      const rowH = 40 * scale;
+      const gapSmall = 10 * scale;
+      const sectionHeaderH = 30 * scale;
+      const logRowH = 24 * scale;
+      const cycle = (list: number[], current: number): number => list[(list.indexOf(current) + 1) % list.length];
+      const buttons: MenuButton[] = [];
+      let y = boxY + margin + (60 * scale) + gap;
+
+      buttons.push({
+          id: 'ap_toggle', x: btnX, y, w: btnW, h: rowH,
+          label: `Auto-Prestige: ${config.enabled ? 'ON' : 'OFF'}`,
+          color: config.enabled ? '#4caf50' : '#f44336',
+          onClick: () => { config.enabled = !config.enabled; }
+      });
+      y += rowH + gapSmall;
+
+      buttons.push({
+          id: 'ap_depth', x: btnX, y, w: btnW, h: rowH,
+          label: `At depth: ${config.depth > 0 ? `${config.depth}m` : 'Off'}`,
+          color: config.depth > 0 ? '#2196f3' : '#555',
+          onClick: () => { config.depth = cycle(AUTO_PRESTIGE_DEPTHS, config.depth); }
+      });
+      y += rowH + gapSmall;
+
+      buttons.push({
+          id: 'ap_benefit', x: btnX, y, w: btnW, h: rowH,
+          label: `At benefit: ${config.benefit > 0 ? `x${config.benefit}` : 'Off'}`,
+          color: config.benefit > 0 ? '#2196f3' : '#555',
+          onClick: () => { config.benefit = cycle(AUTO_PRESTIGE_BENEFITS, config.benefit); }
+      });
+      y += rowH + gapSmall;
+
+      const projectionY = y + sectionHeaderH / 2;
+      y += sectionHeaderH;
+      const logHeaderY = y + sectionHeaderH / 2;
+      y += sectionHeaderH;
+
+      return { buttons, projectionY, logHeaderY, logTopY: y, logRowH };
+  }
+
+  drawAutoPrestige(context: CanvasRenderingContext2D, layout: MenuLayout) {
+    const { btnX, btnW, btnHeight, backBtnY, titleY, scale } = layout;
+    const { buttons, projectionY, logHeaderY, logTopY, logRowH } = this.getAutoPrestigeLayout(layout);
+    const titleText = "AUTO-PRESTIGE";
+
+    // Title
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    context.shadowBlur = 8 * scale;
+    context.shadowOffsetX = 3 * scale;
+    context.shadowOffsetY = 3 * scale;
+
+    context.font = `${48 * scale}px "Fredoka One", cursive`;
+    context.strokeStyle = '#1A1A1A';
+    context.lineWidth = 2 * scale;
+    context.strokeText(titleText, this.sim.canvasWidth / 2, titleY);
+    context.fillStyle = 'white';
+    context.fillText(titleText, this.sim.canvasWidth / 2, titleY);
+
+    context.shadowBlur = 0;
+    context.shadowOffsetX = 0;
+    context.shadowOffsetY = 0;
+
+    this.drawMenuButtons(context, buttons, scale);
+
+    // What prestiging right now would give
+    context.fillStyle = '#FFD700';
+    context.font = `${18 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    const projection = this.sim.canPrestige()
+        ? `Prestige now: x${this.sim.getPrestigeBenefit().toFixed(2)} mining power (${this.sim.prestigeCount + 2} balls, +${this.format(this.sim.getPrestigeReward())} PP)`
+        : `Reach ${this.sim.PRESTIGE_DEPTH}m to prestige`;
+    context.fillText(projection, this.sim.canvasWidth / 2, projectionY);
+
+    // Prestige Log (newest first)
+    context.fillStyle = '#888';
+    context.textAlign = 'left';
+    context.fillText('RECENT PRESTIGES', btnX, logHeaderY);
+
+    context.font = `${16 * scale}px "Fredoka One", cursive`;
+    if (this.prestigeLog.length === 0) {
+        context.fillStyle = '#666';
+        context.fillText('None yet', btnX, logTopY + logRowH / 2);
+    }
+    this.prestigeLog.forEach((entry, i) => {
+        const rowY = logTopY + i * logRowH + logRowH / 2;
+        context.fillStyle = i % 2 === 0 ? 'white' : '#ccc';
+        context.textAlign = 'left';
+        context.fillText(`#${entry.prestige}`, btnX, rowY);
+        context.fillText(`${entry.depth}m`, btnX + btnW * 0.12, rowY);
+        context.fillText(`run ${this.formatTime(entry.runMs)}`, btnX + btnW * 0.32, rowY);
+        context.fillText(new Date(entry.at).toLocaleTimeString(), btnX + btnW * 0.58, rowY);
+        context.textAlign = 'right';
+        context.fillStyle = entry.auto ? '#b39ddb' : '#aaa';
+        context.fillText(entry.auto ? 'AUTO' : 'MANUAL', btnX + btnW, rowY);
+    });
+
+    // Back Button (Bottom)
+    const offset = (this.activeButton === 'back') ? 3 * scale : 0;
+
+    context.fillStyle = '#d32f2f';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + (5 * scale), btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = '#f44336';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + offset, btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = 'white';
+    context.font = `${30 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.shadowColor = 'rgba(0,0,0,0.5)';
+    context.shadowBlur = 2 * scale;
+    context.fillText("BACK", this.sim.canvasWidth / 2, backBtnY + (btnHeight / 2) + offset);
+    context.shadowBlur = 0;
+
+    context.textBaseline = 'alphabetic';
+  }
+
+  // Node boxes of the prestige tree, placed on a 3-column grid, shared by drawPrestigeTree and handleInput
+  getPrestigeTreeLayout(layout: MenuLayout) {
+      const { btnX, btnW, boxY, margin, gap, scale } = layout;
+      const sectionHeaderH = 30 * scale;
+      const nodeH = 90 * scale;
+      const rowGap = 40 * scale;
+      const colGap = 30 * scale;
+      const nodeW = (btnW - colGap * 2) / 3;
+      const top = boxY + margin + (60 * scale) + gap;
+
+      const buttons: MenuButton[] = PRESTIGE_NODE_IDS.map(node => {
+          const { position } = PRESTIGE_NODES[node];
+          const maxed = this.sim.isPrestigeNodeMaxed(node);
+          return {
+              id: `node_${node}`,
+              x: btnX + position.col * (nodeW + colGap),
+              y: top + sectionHeaderH * 2 + position.row * (nodeH + rowGap),
+              w: nodeW, h: nodeH,
+              label: '', // Drawn by drawPrestigeTree, a node has several lines
+              color: maxed ? '#ffa000' : this.sim.canBuyPrestigeNode(node) ? '#4caf50'
+                  : this.sim.isPrestigeNodeUnlocked(node) ? '#555' : '#333',
+              onClick: () => this.buyPrestigeNode(node)
+          };
+      });
+
+      return { buttons, pointsY: top + sectionHeaderH / 2, rewardY: top + sectionHeaderH * 1.5 };
+  }
+
+  drawPrestigeTree(context: CanvasRenderingContext2D, layout: MenuLayout) {
+    const { btnX, btnW, btnHeight, backBtnY, titleY, scale } = layout;
+    const { buttons, pointsY, rewardY } = this.getPrestigeTreeLayout(layout);
+    const titleText = "PRESTIGE TREE";
+
+    // Title
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    context.shadowBlur = 8 * scale;
+    context.shadowOffsetX = 3 * scale;
+    context.shadowOffsetY = 3 * scale;
+
+    context.font = `${48 * scale}px "Fredoka One", cursive`;
+    context.strokeStyle = '#1A1A1A';
+    context.lineWidth = 2 * scale;
+    context.strokeText(titleText, this.sim.canvasWidth / 2, titleY);
+    context.fillStyle = 'white';
+    context.fillText(titleText, this.sim.canvasWidth / 2, titleY);
+
+    context.shadowBlur = 0;
+    context.shadowOffsetX = 0;
+    context.shadowOffsetY = 0;
+
+    // Points balance and what the current run is worth
+    context.font = `${22 * scale}px "Fredoka One", cursive`;
+    context.fillStyle = '#f48fb1';
+    context.fillText(`${this.format(this.sim.prestigePoints)} Prestige Points`, this.sim.canvasWidth / 2, pointsY);
+    context.font = `${16 * scale}px "Fredoka One", cursive`;
+    context.fillStyle = '#aaa';
+    const rewardText = this.sim.canPrestige()
+        ? `Prestiging now earns ${this.format(this.sim.getPrestigeReward())} PP (depth ${this.format(this.sim.runMaxDepth)}m, $${this.format(this.sim.runEarnings)} earned)`
+        : `Reach ${this.sim.PRESTIGE_DEPTH}m to earn PP from this run`;
+    context.fillText(rewardText, this.sim.canvasWidth / 2, rewardY);
+
+    // Connectors from each node up to the one it requires
+    const byNode = new Map(buttons.map((button, i) => [PRESTIGE_NODE_IDS[i], button]));
+    context.lineWidth = 4 * scale;
+    for (const node of PRESTIGE_NODE_IDS) {
+        const { requires } = PRESTIGE_NODES[node];
+        if (!requires) continue;
+        const child = byNode.get(node)!;
+        const parent = byNode.get(requires)!;
+        context.strokeStyle = this.sim.isPrestigeNodeUnlocked(node) ? '#f48fb1' : '#444';
+        context.beginPath();
+        context.moveTo(parent.x + parent.w / 2, parent.y + parent.h);
+        context.lineTo(child.x + child.w / 2, child.y);
+        context.stroke();
+    }
+
+    this.drawMenuButtons(context, buttons, scale);
+
+    // Node text: name, level, effect and next cost
+    for (const node of PRESTIGE_NODE_IDS) {
+        const button = byNode.get(node)!;
+        const { name, description, maxLevel } = PRESTIGE_NODES[node];
+        const level = this.sim.prestigeTree[node];
+        const offset = (this.activeButton === button.id) ? 2 * scale : 0;
+        const cx = button.x + button.w / 2;
+        const lineH = button.h / 4;
+
+        context.textAlign = 'center';
+        context.fillStyle = 'white';
+        context.font = `${16 * scale}px "Fredoka One", cursive`;
+        context.fillText(name, cx, button.y + lineH * 0.6 + offset);
+        context.font = `${13 * scale}px "Fredoka One", cursive`;
+        context.fillStyle = '#ddd';
+        context.fillText(description, cx, button.y + lineH * 1.6 + offset);
+        context.fillText(`Lv ${level}/${maxLevel}`, cx, button.y + lineH * 2.5 + offset);
+        context.fillStyle = '#f48fb1';
+        const costText = this.sim.isPrestigeNodeMaxed(node) ? 'MAXED'
+            : this.sim.isPrestigeNodeUnlocked(node) ? `${this.format(this.sim.getPrestigeNodeCost(node))} PP`
+            : `Needs ${PRESTIGE_NODES[PRESTIGE_NODES[node].requires!].name}`;
+        context.fillText(costText, cx, button.y + lineH * 3.4 + offset);
+    }
+
+    // Back Button (Bottom)
+    const offset = (this.activeButton === 'back') ? 3 * scale : 0;
+
+    context.fillStyle = '#d32f2f';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + (5 * scale), btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = '#f44336';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + offset, btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = 'white';
+    context.font = `${30 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.shadowColor = 'rgba(0,0,0,0.5)';
+    context.shadowBlur = 2 * scale;
+    context.fillText("BACK", this.sim.canvasWidth / 2, backBtnY + (btnHeight / 2) + offset);
+    context.shadowBlur = 0;
+
+    context.textBaseline = 'alphabetic';
+  }
+
+  // Info rows and the reset button of the Core Reset screen; the button turns into confirm/cancel once pressed
+  getCoreResetLayout(layout: MenuLayout) {
+      const { btnX, btnW, btnHeight, boxY, margin, gap, scale } = layout;
+      const sectionHeaderH = 30 * scale;
+      const top = boxY + margin + (60 * scale) + gap;
+      const lineY = (i: number) => top + sectionHeaderH * i + sectionHeaderH / 2;
+      const buttonY = top + sectionHeaderH * 4 + gap;
+      const canReset = this.sim.canCoreReset();
+      const buttons: MenuButton[] = [];
+
+      if (this.confirmingCoreReset && canReset) {
+          const halfW = (btnW - gap) / 2;
+          buttons.push({
+              id: 'core_confirm', x: btnX, y: buttonY, w: halfW, h: btnHeight,
+              label: 'CONFIRM', color: '#d32f2f',
+              onClick: () => this.coreReset()
+          });
+          buttons.push({
+              id: 'core_cancel', x: btnX + halfW + gap, y: buttonY, w: halfW, h: btnHeight,
+              label: 'CANCEL', color: '#555',
+              onClick: () => { this.confirmingCoreReset = false; }
+          });
+      } else {
+          buttons.push({
+              id: 'core_reset', x: btnX, y: buttonY, w: btnW, h: btnHeight,
+              label: canReset ? `CORE RESET (+${this.format(this.sim.getCoreReward())})` : 'CORE RESET',
+              color: canReset ? '#00acc1' : '#555',
+              onClick: () => { if (canReset) this.confirmingCoreReset = true; }
+          });
+      }
+
+      return { buttons, lineY };
+  }
+
+  drawCoreReset(context: CanvasRenderingContext2D, layout: MenuLayout) {
+    const { btnX, btnW, btnHeight, backBtnY, titleY, scale } = layout;
+    const { buttons, lineY } = this.getCoreResetLayout(layout);
+    const titleText = "CORE RESET";
+    const centerX = this.sim.canvasWidth / 2;
+
+    // Title
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    context.shadowBlur = 8 * scale;
+    context.shadowOffsetX = 3 * scale;
+    context.shadowOffsetY = 3 * scale;
+
+    context.font = `${48 * scale}px "Fredoka One", cursive`;
+    context.strokeStyle = '#1A1A1A';
+    context.lineWidth = 2 * scale;
+    context.strokeText(titleText, centerX, titleY);
+    context.fillStyle = 'white';
+    context.fillText(titleText, centerX, titleY);
+
+    context.shadowBlur = 0;
+    context.shadowOffsetX = 0;
+    context.shadowOffsetY = 0;
+
+    // Current cores and what they give
+    context.font = `${22 * scale}px "Fredoka One", cursive`;
+    context.fillStyle = '#4dd0e1';
+    context.fillText(`${this.format(this.sim.cores)} Cores: x${this.formatMultiplier(this.sim.getCoreMultiplier())} damage, value and PP`, centerX, lineY(0));
+
+    context.font = `${16 * scale}px "Fredoka One", cursive`;
+    context.fillStyle = '#aaa';
+    const requirement = `Requires ${this.sim.CORE_RESET_PRESTIGES} prestiges (you have ${this.sim.prestigeCount}), ${this.sim.coreResets} Core Reset${this.sim.coreResets === 1 ? '' : 's'} so far`;
+    context.fillText(requirement, centerX, lineY(1));
+
+    if (this.sim.canCoreReset()) {
+        const nextMultiplier = Math.pow(this.sim.CORE_MULTIPLIER, this.sim.cores + this.sim.getCoreReward());
+        context.fillStyle = 'white';
+        context.fillText(`Resetting now: +${this.format(this.sim.getCoreReward())} cores, bonus becomes x${this.formatMultiplier(nextMultiplier)}`, centerX, lineY(2));
+    }
+
+    context.fillStyle = this.confirmingCoreReset ? '#ff8a80' : '#888';
+    const warning = this.confirmingCoreReset
+        ? `Are you sure? You go back to 1 ball from ${this.sim.balls.length}.`
+        : 'Resets prestiges, balls, money and upgrades. Keeps PP and the tree.';
+    context.fillText(warning, centerX, lineY(3));
+
+    this.drawMenuButtons(context, buttons, scale);
+
+    // Back Button (Bottom)
+    const offset = (this.activeButton === 'back') ? 3 * scale : 0;
+
+    context.fillStyle = '#d32f2f';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + (5 * scale), btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = '#f44336';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + offset, btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = 'white';
+    context.font = `${30 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.shadowColor = 'rgba(0,0,0,0.5)';
+    context.shadowBlur = 2 * scale;
+    context.fillText("BACK", centerX, backBtnY + (btnHeight / 2) + offset);
+    context.shadowBlur = 0;
+
+    context.textBaseline = 'alphabetic';
+  }
+
+  // Export and import rows of the save transfer screen; load/cancel appear once an import passed its checks
+  getTransferLayout(layout: MenuLayout) {
+      const { btnX, btnW, boxY, margin, gap, scale } = layout;
+      const sectionHeaderH = 30 * scale;
+      const rowH = 40 * scale;
+      const gapSmall = 10 * scale;
+      const lineH = 24 * scale;
+      const halfW = (btnW - gapSmall) / 2;
+      const buttons: MenuButton[] = [];
+      let y = boxY + margin + (60 * scale) + gap;
+
+      const exportHeaderY = y + sectionHeaderH / 2;
+      y += sectionHeaderH;
+      buttons.push({
+          id: 'export_copy', x: btnX, y, w: halfW, h: rowH,
+          label: 'Copy to Clipboard', color: '#2196f3',
+          onClick: () => this.copySaveExport()
+      });
+      buttons.push({
+          id: 'export_file', x: btnX + halfW + gapSmall, y, w: halfW, h: rowH,
+          label: 'Download File', color: '#2196f3',
+          onClick: () => this.downloadSaveExport()
+      });
+      y += rowH + gapSmall;
+
+      const importHeaderY = y + sectionHeaderH / 2;
+      y += sectionHeaderH;
+      buttons.push({
+          id: 'import_paste', x: btnX, y, w: halfW, h: rowH,
+          label: 'Paste from Clipboard', color: '#009688',
+          onClick: () => this.pasteSaveImport()
+      });
+      buttons.push({
+          id: 'import_file', x: btnX + halfW + gapSmall, y, w: halfW, h: rowH,
+          label: 'Open File', color: '#009688',
+          onClick: () => this.openSaveImportFile()
+      });
+      y += rowH + gapSmall;
+
+      const previewTopY = y;
+      y += lineH * 5 + gapSmall;
+
+      if (this.pendingImport) {
+          buttons.push({
+              id: 'import_confirm', x: btnX, y, w: halfW, h: rowH,
+              label: 'LOAD THIS SAVE', color: '#d32f2f',
+              onClick: () => this.confirmImport()
+          });
+          buttons.push({
+              id: 'import_cancel', x: btnX + halfW + gapSmall, y, w: halfW, h: rowH,
+              label: 'CANCEL', color: '#555',
+              onClick: () => { this.pendingImport = null; }
+          });
+      }
+
+      return { buttons, exportHeaderY, importHeaderY, previewTopY, lineH };
+  }
+
+  drawTransfer(context: CanvasRenderingContext2D, layout: MenuLayout) {
+    const { btnX, btnW, btnHeight, backBtnY, titleY, scale } = layout;
+    const { buttons, exportHeaderY, importHeaderY, previewTopY, lineH } = this.getTransferLayout(layout);
+    const titleText = "SAVE TRANSFER";
+    const centerX = this.sim.canvasWidth / 2;
+
+    // Title
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    context.shadowBlur = 8 * scale;
+    context.shadowOffsetX = 3 * scale;
+    context.shadowOffsetY = 3 * scale;
+
+    context.font = `${48 * scale}px "Fredoka One", cursive`;
+    context.strokeStyle = '#1A1A1A';
+    context.lineWidth = 2 * scale;
+    context.strokeText(titleText, centerX, titleY);
+    context.fillStyle = 'white';
+    context.fillText(titleText, centerX, titleY);
+
+    context.shadowBlur = 0;
+    context.shadowOffsetX = 0;
+    context.shadowOffsetY = 0;
+
+    // Section Headers
+    context.fillStyle = '#888';
+    context.font = `${18 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'left';
+    context.fillText('EXPORT THIS SAVE', btnX, exportHeaderY);
+    context.fillText('IMPORT A SAVE', btnX, importHeaderY);
+
+    this.drawMenuButtons(context, buttons, scale);
+
+    // Preview of the checked import, or the result of the last action
+    context.textAlign = 'center';
+    const lineY = (i: number) => previewTopY + lineH * i + lineH / 2;
+    if (this.pendingImport) {
+        const preview = getSavePreview(this.pendingImport);
+        context.fillStyle = '#FFD700';
+        context.font = `${18 * scale}px "Fredoka One", cursive`;
+        context.fillText('Replace your current game with:', centerX, lineY(0));
+        context.fillStyle = 'white';
+        context.font = `${16 * scale}px "Fredoka One", cursive`;
+        context.fillText(`Money: $${this.format(preview.money)}`, centerX, lineY(1));
+        context.fillText(`Depth: ${this.format(preview.depth)}m`, centerX, lineY(2));
+        context.fillText(`Prestige ${preview.prestigeCount}, ${this.format(preview.cores)} cores`, centerX, lineY(3));
+        context.fillStyle = '#aaa';
+        context.fillText(`Saved ${new Date(preview.savedAt).toLocaleString()}`, centerX, lineY(4));
+    } else if (this.transferMessage) {
+        context.fillStyle = 'white';
+        context.font = `${16 * scale}px "Fredoka One", cursive`;
+        context.fillText(this.transferMessage, centerX, lineY(2), btnW);
+    }
+
+    // Back Button (Bottom)
+    const offset = (this.activeButton === 'back') ? 3 * scale : 0;
+
+    context.fillStyle = '#d32f2f';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + (5 * scale), btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = '#f44336';
+    context.beginPath();
+    context.roundRect(btnX, backBtnY + offset, btnW, btnHeight, 5 * scale);
+    context.fill();
+
+    context.fillStyle = 'white';
+    context.font = `${30 * scale}px "Fredoka One", cursive`;
+    context.textAlign = 'center';
+    context.shadowColor = 'rgba(0,0,0,0.5)';
+    context.shadowBlur = 2 * scale;
+    context.fillText("BACK", centerX, backBtnY + (btnHeight / 2) + offset);
+    context.shadowBlur = 0;
+
+    context.textBaseline = 'alphabetic';
+  }
+
+  // Side-by-side dialog for a slot changed both here and on the sync endpoint, drawn above every screen
+  getSyncConflictLayout() {
+      const scale = Math.min(this.sim.canvasWidth, this.sim.canvasHeight) / 1000;
+      const margin = 30 * scale;
+      const gap = 20 * scale;
+      const headerH = 90 * scale;
+      const lineH = 26 * scale;
+      const btnH = 50 * scale;
+
+      const boxW = 720 * scale;
+      const boxH = margin + headerH + lineH * 6 + gap + btnH + margin;
+      const boxX = (this.sim.canvasWidth - boxW) / 2;
+      const boxY = (this.sim.canvasHeight - boxH) / 2;
+      const columnW = (boxW - margin * 2 - gap) / 2;
+      const columnTopY = boxY + margin + headerH;
+      const btnY = columnTopY + lineH * 6 + gap;
+
+      // The side with more progress is suggested; equal progress goes to the newer save
+      const conflict = this.syncConflict;
+      const progress = conflict ? compareProgress(conflict.local, conflict.remote.data) : 0;
+      const suggestLocal = conflict !== null && (progress !== 0 ? progress > 0 : conflict.local.lastActiveTime >= conflict.remote.data.lastActiveTime);
+
+      const columns = [
+          { title: 'THIS DEVICE', data: conflict?.local, suggested: suggestLocal, x: boxX + margin },
+          { title: 'CLOUD', data: conflict?.remote.data, suggested: !suggestLocal, x: boxX + margin + columnW + gap }
+      ];
+      const buttons: MenuButton[] = columns.map((column, i) => ({
+          id: i === 0 ? 'sync_keep_local' : 'sync_use_remote',
+          x: column.x, y: btnY, w: columnW, h: btnH,
+          label: i === 0 ? 'KEEP THIS DEVICE' : 'USE CLOUD SAVE',
+          color: column.suggested ? '#4caf50' : '#607d8b',
+          onClick: () => this.resolveSyncConflict(i === 0)
+      }));
+
+      return { scale, boxX, boxY, boxW, boxH, margin, columnW, columnTopY, lineH, columns, buttons };
+  }
+
+  drawSyncConflict(context: CanvasRenderingContext2D) {
+    const { scale, boxX, boxY, boxW, boxH, margin, columnW, columnTopY, lineH, columns, buttons } = this.getSyncConflictLayout();
+    const centerX = this.sim.canvasWidth / 2;
+
+    context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    context.fillRect(0, 0, this.sim.canvasWidth, this.sim.canvasHeight);
+
+    context.fillStyle = 'rgba(50, 50, 50, 0.95)';
+    context.strokeStyle = '#1A1A1A';
+    context.lineWidth = 2 * scale;
+    context.beginPath();
+    context.roundRect(boxX, boxY, boxW, boxH, 15 * scale);
+    context.fill();
+    context.stroke();
+
+    // Header
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillStyle = 'white';
+    context.font = `${36 * scale}px "Fredoka One", cursive`;
+    context.fillText('SAVE CONFLICT', centerX, boxY + margin + 20 * scale);
+    context.fillStyle = '#aaa';
+    context.font = `${16 * scale}px "Fredoka One", cursive`;
+    context.fillText(`Slot ${(this.syncConflict?.slot ?? 0) + 1} changed on this device and in the cloud. Keep which one?`, centerX, boxY + margin + 62 * scale, boxW - margin * 2);
+
+    // One column per side, the suggested one outlined
+    for (const { title, data, suggested, x } of columns) {
+        if (!data) continue;
+        const preview = getSavePreview(data);
+        const columnX = x + columnW / 2;
+        const lineY = (i: number) => columnTopY + lineH * i + lineH / 2;
+
+        context.fillStyle = 'rgba(0, 0, 0, 0.3)';
+        context.beginPath();
+        context.roundRect(x, columnTopY, columnW, lineH * 6, 8 * scale);
+        context.fill();
+        if (suggested) {
+            context.strokeStyle = '#FFD700';
+            context.lineWidth = 2 * scale;
+            context.stroke();
+        }
+
+        context.fillStyle = 'white';
+        context.font = `${20 * scale}px "Fredoka One", cursive`;
+        context.fillText(title, columnX, lineY(0));
+        context.font = `${16 * scale}px "Fredoka One", cursive`;
+        context.fillText(`Money: $${this.format(preview.money)}`, columnX, lineY(1));
+        context.fillText(`Depth: ${this.format(preview.depth)}m`, columnX, lineY(2));
+        context.fillText(`Prestige ${preview.prestigeCount}, ${this.format(preview.cores)} cores`, columnX, lineY(3));
+        context.fillStyle = '#aaa';
+        context.fillText(`Saved ${new Date(preview.savedAt).toLocaleString()}`, columnX, lineY(4), columnW - 10 * scale);
+        if (suggested) {
+            context.fillStyle = '#FFD700';
+            context.fillText('Suggested', columnX, lineY(5));
+        }
+    }
+
+    this.drawMenuButtons(context, buttons, scale);
+    context.textBaseline = 'alphabetic';
+  }
+
+  // Countdown banner shown in game before an auto-prestige (below the notification), with its cancel button
+  getAutoPrestigeBannerLayout() {
+      const scale = Math.min(this.sim.canvasWidth, this.sim.canvasHeight) / 1000;
+      const hudMargin = 20 * scale;
+      const w = 420 * scale;
+      const h = 50 * scale;
+      const x = (this.sim.canvasWidth - w) / 2;
+      const y = hudMargin + (80 * scale) + (60 * scale);
+      const cancelW = 100 * scale;
+      const cancelH = 34 * scale;
+      return { scale, x, y, w, h, cancelX: x + w - cancelW - 8 * scale, cancelY: y + (h - cancelH) / 2, cancelW, cancelH };
+  }
+
+  togglePause() {
+      if (this.gameState === 'PLAYING') {
+          this.gameState = 'PAUSED';
+          this.menuState = 'MAIN'; // Always open to main menu
+          // Clear any in-game notifications (like offline progress) when pausing
+          this.notificationTimer = 0;
+          this.notificationText = "";
+      } else if (this.gameState === 'PAUSED') {
+          this.gameState = 'PLAYING';
+          this.activeButton = null; // Reset mouse state on resume
+      }
+  }
+
+  handleInput(type: string, x: number, y: number) {
+    this.recorder?.recordInput(type, x, y);
+
+    const scale = Math.min(this.sim.canvasWidth, this.sim.canvasHeight) / 1000;
+    
+    // Reset hover state by default (will be set to true if inside a button)
+    if (type === 'mousemove') {
+        this.isHoveringButton = false;
+        this.prestigeButtonHovered = false;
+    }
+
+    // The sync conflict dialog takes all input until the player picks a side
+    if (this.syncConflict) {
+        const { buttons } = this.getSyncConflictLayout();
+        for (const button of buttons) {
+            if (x >= button.x && x <= button.x + button.w && y >= button.y && y <= button.y + button.h) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = button.id;
+                } else if (type === 'mouseup') {
+                    if (this.activeButton === button.id) button.onClick();
+                    this.activeButton = null;
+                }
+                return;
+            }
+        }
+        if (type === 'mouseup') this.activeButton = null;
+        return;
+    }
+
+    if (this.gameState === 'MENU') {
+        const { buttons } = this.getTitleLayout();
+        for (const button of buttons) {
+            if (x >= button.x && x <= button.x + button.w && y >= button.y && y <= button.y + button.h) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = button.id;
+                } else if (type === 'mouseup') {
+                    if (this.activeButton === button.id) {
+                        // Any other press cancels a pending delete
+                        if (button.id !== `slot_delete_${this.confirmingDeleteSlot}`) this.confirmingDeleteSlot = null;
+                        button.onClick();
+                    }
+                    this.activeButton = null;
+                }
+                return;
+            }
+        }
+
+        if (type === 'mouseup') this.activeButton = null;
+    } else if (this.gameState === 'PAUSED') {
+        const layout = this.getPauseMenuLayout();
+        const { btnX, btnW, btnHeight, resumeBtnY, shopBtnY, autoBuyBtnY, autoPrestigeBtnY, prestigeTreeBtnY, coreResetBtnY, settingsBtnY, saveBtnY, transferBtnY, backBtnY, scale, boxY, margin, gap } = layout;
+
+        if (this.menuState === 'MAIN') {
+            // Check Resume
+            const insideResume = x >= btnX && x <= btnX + btnW && y >= resumeBtnY && y <= resumeBtnY + btnHeight + (5 * scale);
+            // Check Shop
+            const insideShop = x >= btnX && x <= btnX + btnW && y >= shopBtnY && y <= shopBtnY + btnHeight + (5 * scale);
+            // Check Auto-Buyer
+            const insideAutoBuy = x >= btnX && x <= btnX + btnW && y >= autoBuyBtnY && y <= autoBuyBtnY + btnHeight + (5 * scale);
+            // Check Auto-Prestige
+            const insideAutoPrestige = x >= btnX && x <= btnX + btnW && y >= autoPrestigeBtnY && y <= autoPrestigeBtnY + btnHeight + (5 * scale);
+            // Check Prestige Tree
+            const insidePrestigeTree = x >= btnX && x <= btnX + btnW && y >= prestigeTreeBtnY && y <= prestigeTreeBtnY + btnHeight + (5 * scale);
+            // Check Core Reset
+            const insideCoreReset = x >= btnX && x <= btnX + btnW && y >= coreResetBtnY && y <= coreResetBtnY + btnHeight + (5 * scale);
+            // Check Settings
+            const insideSettings = x >= btnX && x <= btnX + btnW && y >= settingsBtnY && y <= settingsBtnY + btnHeight + (5 * scale);
+            // Check Save
+            const insideSave = x >= btnX && x <= btnX + btnW && y >= saveBtnY && y <= saveBtnY + btnHeight + (5 * scale);
+            // Check Export/Import
+            const insideTransfer = x >= btnX && x <= btnX + btnW && y >= transferBtnY && y <= transferBtnY + btnHeight + (5 * scale);
+
+            if (insideResume) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'resume';
+                } else if (type === 'mouseup' && this.activeButton === 'resume') {
+                    this.togglePause();
+                    this.activeButton = null;
+                }
+            }
+            else if (insideShop) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'shop';
+                } else if (type === 'mouseup' && this.activeButton === 'shop') {
+                    this.shopOpenedFromHUD = false; // Opened from pause menu, not HUD
+                    this.menuState = 'SHOP';
+                    this.activeButton = null;
+                }
+            }
+            else if (insideAutoBuy) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'autobuy';
+                } else if (type === 'mouseup' && this.activeButton === 'autobuy') {
+                    this.menuState = 'AUTOBUY';
+                    this.activeButton = null;
+                }
+            }
+            else if (insideAutoPrestige) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'autoprestige';
+                } else if (type === 'mouseup' && this.activeButton === 'autoprestige') {
+                    this.menuState = 'AUTOPRESTIGE';
+                    this.activeButton = null;
+                }
+            }
+            else if (insidePrestigeTree) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'prestigetree';
+                } else if (type === 'mouseup' && this.activeButton === 'prestigetree') {
+                    this.menuState = 'PRESTIGE';
+                    this.activeButton = null;
+                }
+            }
+            else if (insideCoreReset) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'corereset';
+                } else if (type === 'mouseup' && this.activeButton === 'corereset') {
+                    this.confirmingCoreReset = false;
+                    this.menuState = 'CORE';
                     this.activeButton = null;
                 }
             }
@@ -2327,6 +3278,17 @@ class GameEngine {
                     this.activeButton = null;
                 }
             }
+            else if (insideTransfer) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'transfer';
+                } else if (type === 'mouseup' && this.activeButton === 'transfer') {
+                    this.pendingImport = null;
+                    this.transferMessage = '';
+                    this.menuState = 'TRANSFER';
+                    this.activeButton = null;
+                }
+            }
             else {
                 if (type === 'mouseup') this.activeButton = null;
             }
@@ -2364,6 +3326,15 @@ class GameEngine {
              const bounceY = blocksY + btnHeightSmall + gapSmall;
              const insideBounce = x >= btnX && x <= btnX + btnW && y >= bounceY && y <= bounceY + btnHeightSmall + (5 * scale);
 
+             const ballsY = bounceY + btnHeightSmall + gapSmall;
+             const insideBalls = x >= btnX && x <= btnX + btnW && y >= ballsY && y <= ballsY + btnHeightSmall + (5 * scale);
+
+             const physicsY = ballsY + btnHeightSmall + gapSmall;
+             const insidePhysics = x >= btnX && x <= btnX + btnW && y >= physicsY && y <= physicsY + btnHeightSmall + (5 * scale);
+
+             const numbersY = physicsY + btnHeightSmall + gapSmall;
+             const insideNumbers = x >= btnX && x <= btnX + btnW && y >= numbersY && y <= numbersY + btnHeightSmall + (5 * scale);
+
              if (insideHp) {
                  if (type === 'mousemove') this.isHoveringButton = true;
                  if (type === 'mousedown') this.activeButton = 'toggle_hp';
@@ -2387,6 +3358,32 @@ class GameEngine {
                      SoundManager.muteBounce = !this.settings.sfxBounce;
                      this.activeButton = null;
                  }
+             } else if (insideBalls) {
+                 if (type === 'mousemove') this.isHoveringButton = true;
+                 if (type === 'mousedown') this.activeButton = 'toggle_balls';
+                 else if (type === 'mouseup' && this.activeButton === 'toggle_balls') {
+                     // Physics option, so it lives on the simulation (and in its save state)
+                     this.sim.ballCollisions = !this.sim.ballCollisions;
+                     this.recorder?.recordBallCollisions(this.sim.ballCollisions);
+                     this.activeButton = null;
+                 }
+             } else if (insidePhysics) {
+                 if (type === 'mousemove') this.isHoveringButton = true;
+                 if (type === 'mousedown') this.activeButton = 'cycle_substeps';
+                 else if (type === 'mouseup' && this.activeButton === 'cycle_substeps') {
+                     // Like ball collisions, saved with the simulation and recorded for replays
+                     const next = (SUB_STEP_OPTIONS.indexOf(this.sim.subSteps) + 1) % SUB_STEP_OPTIONS.length;
+                     this.sim.subSteps = SUB_STEP_OPTIONS[next];
+                     this.recorder?.recordSubSteps(this.sim.subSteps);
+                     this.activeButton = null;
+                 }
+             } else if (insideNumbers) {
+                 if (type === 'mousemove') this.isHoveringButton = true;
+                 if (type === 'mousedown') this.activeButton = 'cycle_numbers';
+                 else if (type === 'mouseup' && this.activeButton === 'cycle_numbers') {
+                     this.settings.numberFormat = nextNotation(this.settings.numberFormat);
+                     this.activeButton = null;
+                 }
              }
 
              const insideBack = x >= btnX && x <= btnX + btnW && y >= backBtnY && y <= backBtnY + btnHeight + (5 * scale);
@@ -2404,29 +3401,47 @@ class GameEngine {
              } else {
                  if (type === 'mouseup' && !this.isResizing) this.activeButton = null;
              }
+        } else if (this.menuState === 'AUTOBUY' || this.menuState === 'AUTOPRESTIGE' || this.menuState === 'PRESTIGE' || this.menuState === 'CORE' || this.menuState === 'TRANSFER') {
+            const insideBack = x >= btnX && x <= btnX + btnW && y >= backBtnY && y <= backBtnY + btnHeight + (5 * scale);
+            if (insideBack) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'back';
+                } else if (type === 'mouseup') {
+                    if (this.activeButton === 'back') this.menuState = 'MAIN';
+                    this.activeButton = null;
+                }
+                return;
+            }
+
+            const { buttons } = this.menuState === 'AUTOBUY' ? this.getAutoBuyerLayout(layout)
+                : this.menuState === 'AUTOPRESTIGE' ? this.getAutoPrestigeLayout(layout)
+                : this.menuState === 'PRESTIGE' ? this.getPrestigeTreeLayout(layout)
+                : this.menuState === 'CORE' ? this.getCoreResetLayout(layout)
+                : this.getTransferLayout(layout);
+            for (const button of buttons) {
+                if (x >= button.x && x <= button.x + button.w && y >= button.y && y <= button.y + button.h) {
+                    if (type === 'mousemove') this.isHoveringButton = true;
+                    if (type === 'mousedown') {
+                        this.activeButton = button.id;
+                    } else if (type === 'mouseup') {
+                        if (this.activeButton === button.id) button.onClick();
+                        this.activeButton = null;
+                    }
+                    return;
+                }
+            }
+
+            if (type === 'mouseup') {
+                this.activeButton = null;
+            }
         } else if (this.menuState === 'SHOP') {
             const sectionHeaderH = 30 * scale;
             const itemHeight = 75 * scale;
             const gapSmall = 15 * scale;
-            let currentY = boxY + margin + (60 * scale) + gap;
-
-            // Calculate Y positions for all items (matching drawShop layout)
-            // Section 1: General Upgrades
-            currentY += sectionHeaderH + gapSmall; // Skip header
-            const damageY = currentY;
-            currentY += itemHeight + gapSmall;
-            const gravityY = currentY;
-            currentY += itemHeight + gapSmall;
-            const efficiencyY = currentY;
-            currentY += itemHeight + gapSmall;
-
-            // Section 2: Block Upgrades
-            currentY += sectionHeaderH + gapSmall; // Skip header
-            const bitBoostersY = currentY;
-            currentY += itemHeight + gapSmall;
-            const cashBoostersY = currentY;
-            currentY += itemHeight + gapSmall;
-            const explosiveBlocksY = currentY;
+            const columnW = (btnW - gap) / 2;
+            // First item below the section headers (matching drawShop layout)
+            const firstItemY = boxY + margin + (60 * scale) + gap + sectionHeaderH + gapSmall;
 
             // Back Button (Checked first to ensure it works)
             const insideBack = x >= btnX && x <= btnX + btnW && y >= backBtnY && y <= backBtnY + btnHeight + (5 * scale);
@@ -2458,25 +3473,42 @@ class GameEngine {
                 return; // Exit early if back button handled
             }
 
+            // Purchase mode buttons
+            for (const button of this.getPurchaseModeButtons(layout)) {
+                if (x >= button.x && x <= button.x + button.w && y >= button.y && y <= button.y + button.h) {
+                    const btnId = `mode_${button.amount}`;
+                    if (type === 'mousemove') this.isHoveringButton = true;
+                    if (type === 'mousedown') {
+                        this.activeButton = btnId;
+                    } else if (type === 'mouseup') {
+                        if (this.activeButton === btnId) this.purchaseAmount = button.amount;
+                        this.activeButton = null;
+                    }
+                    return;
+                }
+            }
+
             // Check each shop item
-            const items: Array<{type: 'damage' | 'gravity' | 'efficiency' | 'bitBoosters' | 'explosiveBlocks' | 'cashBoosters', y: number}> = [
-                { type: 'damage', y: damageY },
-                { type: 'gravity', y: gravityY },
-                { type: 'efficiency', y: efficiencyY },
-                { type: 'bitBoosters', y: bitBoostersY },
-                { type: 'cashBoosters', y: cashBoostersY },
-                { type: 'explosiveBlocks', y: explosiveBlocksY }
+            // Column 1: General + Ore Upgrades, Column 2: Block Upgrades
+            const generalItems: UpgradeType[] = ['damage', 'gravity', 'efficiency'];
+            const oreItems: UpgradeType[] = ['armorPiercing', 'prospecting', 'refinery'];
+            const firstOreItemY = firstItemY + generalItems.length * (itemHeight + gapSmall) + sectionHeaderH + gapSmall;
+            const blockItems: UpgradeType[] = [
+                'bitBoosters', 'cashBoosters', 'explosiveBlocks', 'lightningBlocks', 'multiballBlocks', 'magnetBlocks', 'freezeBlocks'
+            ];
+            const items: Array<{type: UpgradeType, x: number, y: number}> = [
+                ...generalItems.map((itemType, i) => ({ type: itemType, x: btnX, y: firstItemY + i * (itemHeight + gapSmall) })),
+                ...oreItems.map((itemType, i) => ({ type: itemType, x: btnX, y: firstOreItemY + i * (itemHeight + gapSmall) })),
+                ...blockItems.map((itemType, i) => ({ type: itemType, x: btnX + columnW + gap, y: firstItemY + i * (itemHeight + gapSmall) }))
             ];
 
             for (const item of items) {
-                if (y >= item.y && y <= item.y + itemHeight && x >= btnX && x <= btnX + btnW) {
+                if (y >= item.y && y <= item.y + itemHeight && x >= item.x && x <= item.x + columnW) {
                     const btnId = `buy_${item.type}`;
-                    const prices = this.getShopPrices();
-                    const cost = prices[item.type];
-                    const canAfford = this.money >= cost;
+                    const canAfford = this.sim.canAffordUpgrade(item.type, this.purchaseAmount);
 
                     // Check for max level on block upgrades
-                    const isMaxed = (item.type === 'bitBoosters' || item.type === 'explosiveBlocks' || item.type === 'cashBoosters') && this.upgrades[item.type] >= 10;
+                    const isMaxed = this.sim.isUpgradeMaxed(item.type);
 
                     if (type === 'mousemove') this.isHoveringButton = true;
                     // Only set active button if player can afford it and it's not maxed
@@ -2502,7 +3534,27 @@ class GameEngine {
                 this.activeButton = null;
             }
         }
-    } else if (this.gameState === 'PLAYING') {        // Check for Pause Button click
+    } else if (this.gameState === 'PLAYING') {
+        // Check for the auto-prestige Cancel button while its countdown runs
+        if (this.autoPrestige.countdown !== null) {
+            const banner = this.getAutoPrestigeBannerLayout();
+            const insideCancel = x >= banner.cancelX && x <= banner.cancelX + banner.cancelW && y >= banner.cancelY && y <= banner.cancelY + banner.cancelH;
+            if (insideCancel) {
+                if (type === 'mousemove') this.isHoveringButton = true;
+                if (type === 'mousedown') {
+                    this.activeButton = 'cancel_prestige';
+                } else if (type === 'mouseup') {
+                    if (this.activeButton === 'cancel_prestige') {
+                        this.autoPrestige.cancel();
+                        this.showNotification("Auto-prestige cancelled for this run");
+                    }
+                    this.activeButton = null;
+                }
+                return;
+            }
+        }
+
+        // Check for Pause Button click
         const hudMargin = 20 * scale;
         const pauseBtnSize = 60 * scale;
         const pauseBtnX = hudMargin;
@@ -2513,14 +3565,14 @@ class GameEngine {
         // Check for Save Button click (Bottom Left)
         const saveBtnSize = 60 * scale;
         const saveBtnX = hudMargin;
-        const saveBtnY = this.canvasHeight - saveBtnSize - hudMargin;
+        const saveBtnY = this.sim.canvasHeight - saveBtnSize - hudMargin;
 
         const insideSaveIcon = x >= saveBtnX && x <= saveBtnX + saveBtnSize && y >= saveBtnY && y <= saveBtnY + saveBtnSize;
 
         // Check for HUD info box click (Top Right - Depth/Money display)
         const hudW = 200 * scale;
         const hudH = 80 * scale;
-        const hudX = this.canvasWidth - hudW - hudMargin;
+        const hudX = this.sim.canvasWidth - hudW - hudMargin;
         const hudY = hudMargin;
 
         const insideHUD = x >= hudX && x <= hudX + hudW && y >= hudY && y <= hudY + hudH;
@@ -2564,16 +3616,10 @@ class GameEngine {
         // Check for Prestige Button click (Bottom Center)
         const prestigeBtnW = 180 * scale;
         const prestigeBtnH = 50 * scale;
-        const prestigeBtnX = (this.canvasWidth - prestigeBtnW) / 2;
-        const prestigeBtnY = this.canvasHeight - prestigeBtnH - hudMargin;
+        const prestigeBtnX = (this.sim.canvasWidth - prestigeBtnW) / 2;
+        const prestigeBtnY = this.sim.canvasHeight - prestigeBtnH - hudMargin;
 
-        // Calculate depth to check if prestige is available (use deepest ball)
-        const radius = this.rowHeight / 1.5;
-        const groundY = this.getGroundY();
-        const startY = groundY + radius + 20;
-        const deepestBall = this.balls.reduce((deepest, ball) => ball.y > deepest.y ? ball : deepest, this.balls[0]);
-        const depth = Math.max(0, Math.floor((deepestBall.y - startY) / this.rowHeight * 2));
-        const canPrestige = depth >= 1000;
+        const canPrestige = this.sim.canPrestige();
 
         const insidePrestige = x >= prestigeBtnX && x <= prestigeBtnX + prestigeBtnW && y >= prestigeBtnY && y <= prestigeBtnY + prestigeBtnH + (5 * scale);
 
@@ -2594,63 +3640,6 @@ class GameEngine {
         if (type === 'mouseup') this.activeButton = null;
     }
   }
-
-  checkCollision(ball: Ball, block: Block): boolean {
-    const vertices = block.getVertices();
-    const distSq = (ball.x - block.x)**2 + (ball.y - block.y)**2;
-    if (distSq > (block.radius + ball.radius)**2) return false;
-
-    let closestDistSq = Infinity;
-    let closestPoint = { x: 0, y: 0 };
-
-    for (let i = 0; i < 6; i++) {
-        const p1 = vertices[i];
-        const p2 = vertices[(i + 1) % 6]; 
-        const edgeX = p2.x - p1.x;
-        const edgeY = p2.y - p1.y;
-        const lenSq = edgeX*edgeX + edgeY*edgeY;
-        const t = Math.max(0, Math.min(1, ((ball.x - p1.x) * edgeX + (ball.y - p1.y) * edgeY) / lenSq));
-        const projX = p1.x + t * edgeX;
-        const projY = p1.y + t * edgeY;
-        const dX = ball.x - projX;
-        const dY = ball.y - projY;
-        const dSq = dX*dX + dY*dY;
-
-        if (dSq < closestDistSq) {
-            closestDistSq = dSq;
-            closestPoint = { x: projX, y: projY };
-        }
-    }
-
-    if (closestDistSq < ball.radius * ball.radius) {
-        const dist = Math.sqrt(closestDistSq);
-        let nx = (ball.x - closestPoint.x);
-        let ny = (ball.y - closestPoint.y);
-        
-        if (dist === 0) { nx = 0; ny = -1; } 
-        else { nx /= dist; ny /= dist; }
-
-        const overlap = ball.radius - dist;
-        ball.x += nx * overlap;
-        ball.y += ny * overlap;
-
-        const dot = ball.dx * nx + ball.dy * ny;
-        // Only bounce if moving towards the wall (dot < 0)
-        if (dot < 0) {
-            // Play sound based on impact speed (approximated by dot product)
-            const impactSpeed = Math.abs(dot);
-            if (impactSpeed > 1) SoundManager.playBounce(impactSpeed / 5);
-
-            ball.dx = (ball.dx - 2 * dot * nx) * ball.elasticity;
-            ball.dy = (ball.dy - 2 * dot * ny) * ball.elasticity;
-            
-            // Add slight jitter scaled by block size
-            ball.dx += (Math.random() - 0.5) * (block.radius * 0.05);
-        }
-        return true;
-    }
-    return false;
-  }
 }
 
 export default GameEngine;
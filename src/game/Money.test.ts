@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { geometricCost, maxAffordable, parseMoney, toMoney, type PriceCurve } from './Money';
+
+// The damage upgrade's curve: 100, then x1.5 per level
+const curve: PriceCurve = { base: 100n, ratio: [3n, 2n] };
+
+describe('geometricCost', () => {
+    it('sums x1, x10 and x100 levels, rounded down', () => {
+        expect(geometricCost(curve, 0, 1)).toBe(100n);
+        expect(geometricCost(curve, 1, 1)).toBe(150n);
+        expect(geometricCost(curve, 0, 10)).toBe(11333n);
+        expect(geometricCost(curve, 0, 100)).toBe(81312235507043047279n);
+    });
+
+    it('costs nothing for no levels', () => {
+        expect(geometricCost(curve, 5, 0)).toBe(0n);
+    });
+
+    it('stays exact past 2^53', () => {
+        const price = geometricCost(curve, 200, 1);
+        expect(price).toBe(16529199107882080301560025935557101118n);
+        expect(price > 2n ** 53n).toBe(true);
+    });
+});
+
+describe('maxAffordable', () => {
+    it('buys every level the budget barely covers', () => {
+        expect(maxAffordable(curve, 0, 11333n)).toBe(10);
+        expect(maxAffordable(curve, 0, 11332n)).toBe(9);
+    });
+
+    it('buys nothing when the first level is out of reach', () => {
+        expect(maxAffordable(curve, 0, 99n)).toBe(0);
+        expect(maxAffordable(curve, 0, 0n)).toBe(0);
+    });
+
+    it('stops at the limit', () => {
+        expect(maxAffordable(curve, 0, 10n ** 30n, 7)).toBe(7);
+        expect(maxAffordable(curve, 0, 10n ** 30n, 0)).toBe(0);
+    });
+
+    it('counts levels on budgets past 2^53', () => {
+        const budget = geometricCost(curve, 200, 3);
+        expect(maxAffordable(curve, 200, budget)).toBe(3);
+        expect(maxAffordable(curve, 200, budget - 1n)).toBe(2);
+    });
+});
+
+describe('toMoney and parseMoney', () => {
+    it('drops fractions and pays nothing for non-finite amounts', () => {
+        expect(toMoney(1234.99)).toBe(1234n);
+        expect(toMoney(Infinity)).toBe(0n);
+        expect(toMoney(NaN)).toBe(0n);
+    });
+
+    it('reads decimal strings and old number saves', () => {
+        expect(parseMoney('123456789012345678901234567890')).toBe(123456789012345678901234567890n);
+        expect(parseMoney(1234.5)).toBe(1234n);
+        expect(parseMoney('lots')).toBe(0n);
+        expect(parseMoney(undefined)).toBe(0n);
+    });
+});
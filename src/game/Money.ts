@@ -0,0 +1,55 @@
+/**
+ * Money and upgrade prices are bigints so late-game totals stay exact past 2^53.
+ * Payouts are still worked out as floats (they go through float multipliers) and converted once when paid.
+ */
+
+// Price of step k is base * ratio^k; the ratio is a fraction so the growth stays exact
+export interface PriceCurve {
+    base: bigint;
+    ratio: readonly [bigint, bigint]; // numerator / denominator, above 1
+}
+
+// Whole part of a float amount as money, non-finite amounts pay nothing
+export const toMoney = (amount: number): bigint =>
+    Number.isFinite(amount) ? BigInt(Math.trunc(amount)) : 0n;
+
+// Saved money is a decimal string; saves from before big-number money hold a plain number
+export const parseMoney = (saved: string | number | undefined): bigint => {
+    if (typeof saved === 'number') return toMoney(saved);
+    try {
+        return BigInt(saved ?? 0);
+    } catch {
+        return 0n;
+    }
+};
+
+// Total price of `count` consecutive steps from `step`: the geometric series sum, rounded down
+export const geometricCost = ({ base, ratio: [numerator, denominator] }: PriceCurve, step: number, count: number): bigint => {
+    if (count <= 0) return 0n;
+    const first = BigInt(Math.max(0, step));
+    const n = BigInt(count);
+    // base * r^first * (r^n - 1) / (r - 1), with r = numerator / denominator
+    return base * numerator ** first * (numerator ** n - denominator ** n)
+        / (denominator ** (first + n - 1n) * (numerator - denominator));
+};
+
+// Most consecutive steps from `step` that `budget` pays for, never more than `limit`
+export const maxAffordable = (curve: PriceCurve, step: number, budget: bigint, limit: number = Infinity): number => {
+    const fits = (count: number) => geometricCost(curve, step, count) <= budget;
+    if (limit < 1 || !fits(1)) return 0;
+
+    // Double until a count no longer fits (or passes the limit), then binary search the gap
+    let low = 1;
+    let high = 2;
+    while (high <= limit && fits(high)) {
+        low = high;
+        high *= 2;
+    }
+    high = Math.min(high, limit + 1);
+    while (high - low > 1) {
+        const mid = Math.floor((low + high) / 2);
+        if (fits(mid)) low = mid;
+        else high = mid;
+    }
+    return low;
+};
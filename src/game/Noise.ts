@@ -0,0 +1,52 @@
+/**
+ * Seeded 2D value noise with fractal octaves.
+ * Pure function of (seed, x, y), so the same seed always carves the same terrain.
+ */
+class Noise {
+  readonly seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+  }
+
+  // Pseudo-random value in [0, 1) for an integer lattice point
+  private hash(x: number, y: number): number {
+    let h = (Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(this.seed, 982451653)) | 0;
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+  }
+
+  // Smoothly interpolated noise in [0, 1)
+  sample(x: number, y: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const tx = x - x0;
+    const ty = y - y0;
+
+    // Smoothstep fade to hide the lattice
+    const sx = tx * tx * (3 - 2 * tx);
+    const sy = ty * ty * (3 - 2 * ty);
+
+    const top = this.hash(x0, y0) + (this.hash(x0 + 1, y0) - this.hash(x0, y0)) * sx;
+    const bottom = this.hash(x0, y0 + 1) + (this.hash(x0 + 1, y0 + 1) - this.hash(x0, y0 + 1)) * sx;
+    return top + (bottom - top) * sy;
+  }
+
+  // Sum of octaves at doubling frequency and halving amplitude, normalised to [0, 1)
+  fractal(x: number, y: number, octaves: number = 3): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let max = 0;
+    for (let i = 0; i < octaves; i++) {
+      total += this.sample(x * frequency, y * frequency) * amplitude;
+      max += amplitude;
+      amplitude /= 2;
+      frequency *= 2;
+    }
+    return total / max;
+  }
+}
+
+export default Noise;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { formatNumber, nextNotation } from './NumberFormat';
+
+describe('formatNumber', () => {
+    it('prints numbers below 1000 as plain integers in every notation', () => {
+        expect(formatNumber(999)).toBe('999');
+        expect(formatNumber(999.9, 'scientific')).toBe('999');
+        expect(formatNumber(-42, 'engineering')).toBe('-42');
+    });
+
+    it('prints 12.3 million in each notation', () => {
+        expect(formatNumber(12_345_678, 'suffix')).toBe('12.3M');
+        expect(formatNumber(12_345_678, 'scientific')).toBe('1.23e7');
+        expect(formatNumber(12_345_678, 'engineering')).toBe('12.3e6');
+    });
+
+    it('truncates instead of rounding up', () => {
+        expect(formatNumber(1999)).toBe('1.99K');
+        expect(formatNumber(1000)).toBe('1K');
+        expect(formatNumber(-1_500_000)).toBe('-1.5M');
+    });
+
+    it('keeps bigints past 2^53 exact', () => {
+        const value = 2n ** 53n + 1n; // 9007199254740993
+        expect(formatNumber(value)).toBe('9Qa');
+        expect(formatNumber(123_456_789_012_345_678_901_234_567_890n, 'scientific')).toBe('1.23e29');
+        expect(formatNumber(123_456_789_012_345_678_901_234_567_890n, 'engineering')).toBe('123e27');
+    });
+
+    it('falls back to scientific past the last suffix', () => {
+        expect(formatNumber(10n ** 35n)).toBe('100Dc');
+        expect(formatNumber(10n ** 36n)).toBe('1e36');
+    });
+
+    it('prints non-finite numbers as symbols', () => {
+        expect(formatNumber(Infinity)).toBe('∞');
+        expect(formatNumber(-Infinity)).toBe('-∞');
+        expect(formatNumber(NaN)).toBe('?');
+    });
+});
+
+describe('nextNotation', () => {
+    it('cycles through every notation', () => {
+        expect(nextNotation('suffix')).toBe('scientific');
+        expect(nextNotation('scientific')).toBe('engineering');
+        expect(nextNotation('engineering')).toBe('suffix');
+    });
+});
@@ -0,0 +1,61 @@
+export interface NotationDefinition {
+    name: string; // Shown on the settings toggle
+    example: string; // How 12.3 million reads in this notation
+}
+
+/**
+ * Ways large numbers can be printed, picked in settings.
+ * Everything below 1000 prints as a plain integer in every notation.
+ */
+export const NUMBER_NOTATIONS = {
+    suffix: { name: 'Suffix', example: '12.3M' },
+    scientific: { name: 'Scientific', example: '1.23e7' },
+    engineering: { name: 'Engineering', example: '12.3e6' }
+} satisfies Record<string, NotationDefinition>;
+
+export type NumberNotation = keyof typeof NUMBER_NOTATIONS;
+
+export const NOTATION_IDS = Object.keys(NUMBER_NOTATIONS) as NumberNotation[];
+
+export const DEFAULT_NOTATION: NumberNotation = 'suffix';
+
+// One entry per power of 1000, past the last one suffix notation falls back to scientific
+const SUFFIXES = ['', 'K', 'M', 'B', 'T', 'Qa', 'Qi', 'Sx', 'Sp', 'Oc', 'No', 'Dc'];
+
+const SIGNIFICANT_DIGITS = 3;
+
+export const isNotation = (key: string | undefined): key is NumberNotation =>
+    key !== undefined && NOTATION_IDS.includes(key as NumberNotation);
+
+// Next notation in the settings cycle
+export const nextNotation = (notation: NumberNotation): NumberNotation =>
+    NOTATION_IDS[(NOTATION_IDS.indexOf(notation) + 1) % NOTATION_IDS.length];
+
+// Leading digits as "12.3", truncated rather than rounded so money never reads higher than it is
+const mantissa = (digits: string, intDigits: number): string => {
+    const fraction = digits.slice(intDigits, SIGNIFICANT_DIGITS).replace(/0+$/, '');
+    return fraction ? `${digits.slice(0, intDigits)}.${fraction}` : digits.slice(0, intDigits);
+};
+
+// "12.3M", "1.23e7" or "12.3e6" depending on notation; fractions are dropped
+export const formatNumber = (value: number | bigint, notation: NumberNotation = DEFAULT_NOTATION): string => {
+    if (typeof value === 'number') {
+        if (Number.isNaN(value)) return '?';
+        if (!Number.isFinite(value)) return value > 0 ? '∞' : '-∞';
+        value = BigInt(Math.trunc(value));
+    }
+
+    const sign = value < 0n ? '-' : '';
+    const digits = (value < 0n ? -value : value).toString();
+    const exponent = digits.length - 1;
+    if (exponent < 3) return sign + digits;
+
+    const group = Math.floor(exponent / 3);
+    if (notation === 'suffix' && group < SUFFIXES.length) {
+        return `${sign}${mantissa(digits, exponent % 3 + 1)}${SUFFIXES[group]}`;
+    }
+    if (notation === 'engineering') {
+        return `${sign}${mantissa(digits, exponent % 3 + 1)}e${group * 3}`;
+    }
+    return `${sign}${mantissa(digits, 1)}e${exponent}`;
+};
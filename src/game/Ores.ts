@@ -0,0 +1,53 @@
+import { formatNumber, type NumberNotation } from './NumberFormat';
+
+export interface OreDefinition {
+    name: string;
+    color: string; // Nugget colour on the block and in the HUD
+    minRow: number; // Shallowest row the ore can appear in
+    chance: number; // Spawn chance per block once fully ramped in
+}
+
+/**
+ * Ores that can be embedded in regular blocks and drop into the resource inventory.
+ * Listed from most to least common; rolls walk this order.
+ */
+export const ORES = {
+    copper: { name: 'Copper', color: '#B87333', minRow: 10, chance: 0.03 },
+    silver: { name: 'Silver', color: '#C0C0C0', minRow: 75, chance: 0.015 },
+    gold: { name: 'Gold', color: '#FFD700', minRow: 200, chance: 0.008 },
+    diamond: { name: 'Diamond', color: '#B9F2FF', minRow: 450, chance: 0.003 }
+} satisfies Record<string, OreDefinition>;
+
+export type OreType = keyof typeof ORES;
+
+export type ResourceCost = Partial<Record<OreType, number>>;
+
+export const ORE_TYPES = Object.keys(ORES) as OreType[];
+
+const ORE_RAMP_ROWS = 100; // Rows over which an ore fades in below its minRow
+
+export const isOreType = (key: string | undefined): key is OreType =>
+    key !== undefined && ORE_TYPES.includes(key as OreType);
+
+export const emptyResources = (): Record<OreType, number> => ({ copper: 0, silver: 0, gold: 0, diamond: 0 });
+
+// Spawn chance of an ore at a row
+export const getOreChance = (ore: OreType, row: number): number => {
+    const { minRow, chance } = ORES[ore];
+    if (row < minRow) return 0;
+    return chance * Math.min(1, (row - minRow + 1) / ORE_RAMP_ROWS);
+};
+
+// Picks the ore a roll in [0, 1) lands on, or null for a plain block
+export const pickOre = (row: number, roll: number, chanceMultiplier: number = 1): OreType | null => {
+    let threshold = 0;
+    for (const ore of ORE_TYPES) {
+        threshold += getOreChance(ore, row) * chanceMultiplier;
+        if (roll < threshold) return ore;
+    }
+    return null;
+};
+
+// "10 Copper, 3 Silver"
+export const formatResourceCost = (cost: ResourceCost, notation?: NumberNotation): string =>
+    ORE_TYPES.filter(ore => cost[ore]).map(ore => `${formatNumber(cost[ore] ?? 0, notation)} ${ORES[ore].name}`).join(', ');
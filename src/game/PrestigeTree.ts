@@ -0,0 +1,94 @@
+// Nodes in tree order (a node is always listed after the one it requires)
+export const PRESTIGE_NODE_IDS = ['damage', 'startingMoney', 'offlineRate', 'blockCaps', 'keepUpgrades'] as const;
+
+export type PrestigeNode = typeof PRESTIGE_NODE_IDS[number];
+
+export type PrestigeTreeLevels = Record<PrestigeNode, number>;
+
+export interface PrestigeNodeDefinition {
+    name: string;
+    description: string; // What each level does
+    maxLevel: number;
+    baseCost: number; // Prestige points for the first level
+    costGrowth: number; // Cost multiplier per level
+    requires?: PrestigeNode; // Needs a level in this node first
+    position: { col: number; row: number }; // Cell in the tree screen's 3-column grid
+}
+
+/**
+ * Permanent upgrades bought with prestige points; they survive every prestige.
+ * The effect of each node is read through the helpers below.
+ */
+export const PRESTIGE_NODES: Record<PrestigeNode, PrestigeNodeDefinition> = {
+    damage: {
+        name: 'Hardened Bits',
+        description: '+25% damage',
+        maxLevel: 20,
+        baseCost: 1,
+        costGrowth: 1.5,
+        position: { col: 1, row: 0 }
+    },
+    startingMoney: {
+        name: 'Seed Money',
+        description: 'Start runs with money',
+        maxLevel: 10,
+        baseCost: 2,
+        costGrowth: 2,
+        requires: 'damage',
+        position: { col: 0, row: 1 }
+    },
+    offlineRate: {
+        name: 'Night Shift',
+        description: '+25% offline earnings',
+        maxLevel: 8,
+        baseCost: 2,
+        costGrowth: 1.6,
+        requires: 'damage',
+        position: { col: 2, row: 1 }
+    },
+    blockCaps: {
+        name: 'Unstable Matter',
+        description: '+1 special block max level',
+        maxLevel: 5,
+        baseCost: 5,
+        costGrowth: 2,
+        requires: 'startingMoney',
+        position: { col: 0, row: 2 }
+    },
+    keepUpgrades: {
+        name: 'Muscle Memory',
+        description: 'Keep 10% of general levels',
+        maxLevel: 5,
+        baseCost: 5,
+        costGrowth: 2,
+        requires: 'offlineRate',
+        position: { col: 2, row: 2 }
+    }
+};
+
+export const getPrestigeNode = (node: PrestigeNode): PrestigeNodeDefinition => PRESTIGE_NODES[node];
+
+export const emptyPrestigeTree = (): PrestigeTreeLevels => ({
+    damage: 0, startingMoney: 0, offlineRate: 0, blockCaps: 0, keepUpgrades: 0
+});
+
+// Prestige points for the next level of a node
+export const getPrestigeNodeCost = (node: PrestigeNode, level: number): number => {
+    const { baseCost, costGrowth } = getPrestigeNode(node);
+    return Math.floor(baseCost * Math.pow(costGrowth, level));
+};
+
+// --- Effects ---
+
+export const getPrestigeDamageMultiplier = (tree: PrestigeTreeLevels): number => 1 + tree.damage * 0.25;
+
+// $100 at level 1, x10 per level after that
+export const getStartingMoney = (tree: PrestigeTreeLevels): bigint =>
+    tree.startingMoney > 0 ? 100n * 10n ** BigInt(tree.startingMoney - 1) : 0n;
+
+export const getOfflineMultiplier = (tree: PrestigeTreeLevels): number => 1 + tree.offlineRate * 0.25;
+
+export const getBlockCapBonus = (tree: PrestigeTreeLevels): number => tree.blockCaps;
+
+// Share of damage/gravity/efficiency levels carried into the next run
+export const getKeptUpgradeFraction = (tree: PrestigeTreeLevels): number => tree.keepUpgrades * 0.1;
@@ -0,0 +1,29 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * The simulation draws every random decision from one of these so a run can be replayed from its seed.
+ */
+class Random {
+  readonly seed: number;
+  state: number; // Current position in the stream, saved alongside the seed
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Returns a float in [0, 1), like Math.random()
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Fresh 32-bit seed for new runs that weren't given one
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+}
+
+export default Random;
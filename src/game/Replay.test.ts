@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayRecorder, assertReplay, playReplay, type ReplayFile } from './Replay';
+import Simulation from './Simulation';
+
+// Records a session with purchases and every kind of physics-changing event, then round-trips it through JSON
+const recordSession = (): ReplayFile => {
+    const sim = new Simulation(1280, 720, 5);
+    sim.launchBalls();
+    sim.money = 1_000_000n;
+    for (let i = 0; i < 120; i++) sim.advance(16.667);
+
+    const recorder = new ReplayRecorder(sim);
+    for (let i = 0; i < 900; i++) {
+        const dt = 10 + (i % 7); // Uneven frame times exercise the fixed-step accumulator
+        if (i % 200 === 0) {
+            for (const upgrade of ['damage', 'gravity'] as const) {
+                if (sim.buyUpgrade(upgrade)) recorder.recordPurchase(upgrade);
+            }
+        }
+        if (i === 300) {
+            sim.ballCollisions = true;
+            recorder.recordBallCollisions(true);
+        }
+        if (i === 450) {
+            sim.resize(1000, 800);
+            recorder.recordResize(1000, 800);
+        }
+        if (i === 600) {
+            sim.subSteps = 8;
+            recorder.recordSubSteps(8);
+        }
+        recorder.recordFrame(dt);
+        sim.advance(dt);
+    }
+    return JSON.parse(JSON.stringify(recorder.finish(sim)));
+};
+
+describe('replays', () => {
+    it('reproduce the recorded outcome', () => {
+        const replay = recordSession();
+        const result = playReplay(replay);
+        expect(result.mismatches).toEqual([]);
+        expect(result.matches).toBe(true);
+        expect(replay.events.some(event => event.kind === 'purchase')).toBe(true);
+    });
+
+    it('report a diverging outcome', () => {
+        const replay = recordSession();
+        replay.final.money = '1';
+        expect(playReplay(replay).matches).toBe(false);
+        expect(() => assertReplay(replay)).toThrow(/money/);
+    });
+
+    it('reject unknown versions', () => {
+        const replay = { ...recordSession(), version: 2 } as unknown as ReplayFile;
+        expect(() => playReplay(replay)).toThrow(/Unsupported replay version/);
+    });
+});
+
+describe('simulation determinism', () => {
+    it('gives the same world for the same seed and frames', () => {
+        const run = () => {
+            const sim = new Simulation(1280, 720, 42);
+            sim.launchBalls();
+            for (let i = 0; i < 600; i++) sim.advance(16.667);
+            return sim.getState();
+        };
+        expect(run()).toEqual(run());
+    });
+
+    it('continues identically after a save/load round trip', () => {
+        const sim = new Simulation(1280, 720, 9);
+        sim.launchBalls();
+        for (let i = 0; i < 300; i++) sim.advance(16.667);
+
+        const copy = new Simulation(1280, 720);
+        copy.loadState(JSON.parse(JSON.stringify(sim.getState())));
+        for (let i = 0; i < 300; i++) {
+            sim.advance(16.667);
+            copy.advance(16.667);
+        }
+        expect(copy.money).toBe(sim.money);
+        expect(copy.getDepth()).toBe(sim.getDepth());
+    });
+});
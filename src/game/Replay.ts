@@ -0,0 +1,193 @@
+import type { PrestigeNode } from './PrestigeTree';
+import Simulation, { type PurchaseAmount, type SimulationState, type UpgradeType } from './Simulation';
+
+// Something that happened between two simulation steps
+export type ReplayEvent =
+    | { frame: number; kind: 'input'; type: string; x: number; y: number }
+    | { frame: number; kind: 'purchase'; upgrade: UpgradeType; amount?: PurchaseAmount } // amount missing = 1 level
+    | { frame: number; kind: 'prestige' }
+    | { frame: number; kind: 'prestigeNode'; node: PrestigeNode }
+    | { frame: number; kind: 'coreReset' }
+    | { frame: number; kind: 'resize'; width: number; height: number }
+    | { frame: number; kind: 'offline'; elapsedMs: number }
+    | { frame: number; kind: 'ballCollisions'; enabled: boolean }
+    | { frame: number; kind: 'subSteps'; subSteps: number };
+
+export interface ReplayOutcome {
+    money: string; // Decimal string, replays from before big-number money hold a number
+    depth: number;
+    upgrades: SimulationState['upgrades'];
+}
+
+export interface ReplayFile {
+    version: 1;
+    recordedAt: number;
+    start: SimulationState; // Full world snapshot (including seed and RNG position) when recording began
+    frames: number[]; // Frame dt passed to Simulation.advance, one entry per frame
+    events: ReplayEvent[];
+    final: ReplayOutcome;
+}
+
+export interface ReplayResult {
+    matches: boolean;
+    mismatches: string[];
+    expected: ReplayOutcome;
+    actual: ReplayOutcome;
+}
+
+const getOutcome = (sim: Simulation): ReplayOutcome => ({
+    money: sim.money.toString(),
+    depth: sim.getDepth(),
+    upgrades: { ...sim.upgrades }
+});
+
+/**
+ * Captures the frame dt sequence and every state-changing action of a session.
+ * Inputs are kept for context; purchases, prestiges, resizes, offline grants and physics toggles are what the player re-applies.
+ */
+export class ReplayRecorder {
+  private start: SimulationState;
+  private frames: number[] = [];
+  private events: ReplayEvent[] = [];
+  private recordedAt: number = Date.now();
+
+  constructor(sim: Simulation) {
+    // Deep copy so later mutations of the live world don't leak into the snapshot
+    this.start = JSON.parse(JSON.stringify(sim.getState()));
+  }
+
+  get frameCount(): number {
+      return this.frames.length;
+  }
+
+  recordFrame(dt: number) {
+      this.frames.push(dt);
+  }
+
+  recordInput(type: string, x: number, y: number) {
+      this.events.push({ frame: this.frames.length, kind: 'input', type, x, y });
+  }
+
+  recordPurchase(upgrade: UpgradeType, amount: PurchaseAmount = 1) {
+      this.events.push({ frame: this.frames.length, kind: 'purchase', upgrade, amount });
+  }
+
+  recordPrestige() {
+      this.events.push({ frame: this.frames.length, kind: 'prestige' });
+  }
+
+  recordPrestigeNode(node: PrestigeNode) {
+      this.events.push({ frame: this.frames.length, kind: 'prestigeNode', node });
+  }
+
+  recordCoreReset() {
+      this.events.push({ frame: this.frames.length, kind: 'coreReset' });
+  }
+
+  recordResize(width: number, height: number) {
+      this.events.push({ frame: this.frames.length, kind: 'resize', width, height });
+  }
+
+  recordOffline(elapsedMs: number) {
+      this.events.push({ frame: this.frames.length, kind: 'offline', elapsedMs });
+  }
+
+  recordBallCollisions(enabled: boolean) {
+      this.events.push({ frame: this.frames.length, kind: 'ballCollisions', enabled });
+  }
+
+  recordSubSteps(subSteps: number) {
+      this.events.push({ frame: this.frames.length, kind: 'subSteps', subSteps });
+  }
+
+  finish(sim: Simulation): ReplayFile {
+      return {
+          version: 1,
+          recordedAt: this.recordedAt,
+          start: this.start,
+          frames: [...this.frames],
+          events: [...this.events],
+          final: getOutcome(sim)
+      };
+  }
+}
+
+const applyEvent = (sim: Simulation, event: ReplayEvent) => {
+    switch (event.kind) {
+        case 'purchase':
+            sim.buyUpgrade(event.upgrade, event.amount);
+            break;
+        case 'prestige':
+            sim.prestige();
+            break;
+        case 'prestigeNode':
+            sim.buyPrestigeNode(event.node);
+            break;
+        case 'coreReset':
+            sim.coreReset();
+            break;
+        case 'resize':
+            sim.resize(event.width, event.height);
+            break;
+        case 'offline':
+            sim.simulateOfflineProgress(event.elapsedMs);
+            break;
+        case 'ballCollisions':
+            sim.ballCollisions = event.enabled;
+            break;
+        case 'subSteps':
+            sim.subSteps = event.subSteps;
+            break;
+        case 'input':
+            // UI-level only, the actions it triggered are recorded separately
+            break;
+    }
+};
+
+// Re-runs a recorded session headlessly and compares the outcome with the recording
+export const playReplay = (replay: ReplayFile): ReplayResult => {
+    if (replay.version !== 1) {
+        throw new Error(`Unsupported replay version: ${replay.version}`);
+    }
+
+    const sim = new Simulation(replay.start.canvasWidth, replay.start.canvasHeight);
+    sim.loadState(JSON.parse(JSON.stringify(replay.start)));
+
+    let eventIndex = 0;
+    for (let frame = 0; frame <= replay.frames.length; frame++) {
+        while (eventIndex < replay.events.length && replay.events[eventIndex].frame === frame) {
+            applyEvent(sim, replay.events[eventIndex]);
+            eventIndex++;
+        }
+        if (frame < replay.frames.length) {
+            sim.advance(replay.frames[frame]);
+        }
+    }
+
+    const expected = replay.final;
+    const actual = getOutcome(sim);
+    const mismatches: string[] = [];
+
+    if (actual.money !== String(expected.money)) {
+        mismatches.push(`money: expected ${expected.money}, got ${actual.money}`);
+    }
+    if (actual.depth !== expected.depth) {
+        mismatches.push(`depth: expected ${expected.depth}m, got ${actual.depth}m`);
+    }
+    for (const key of Object.keys(expected.upgrades) as UpgradeType[]) {
+        if (actual.upgrades[key] !== expected.upgrades[key]) {
+            mismatches.push(`upgrades.${key}: expected ${expected.upgrades[key]}, got ${actual.upgrades[key]}`);
+        }
+    }
+
+    return { matches: mismatches.length === 0, mismatches, expected, actual };
+};
+
+// Throws with every mismatch if the replay does not reproduce its recorded outcome
+export const assertReplay = (replay: ReplayFile): ReplayResult => {
+    const result = playReplay(replay);
+    if (!result.matches) {
+        throw new Error(`Replay diverged:\n${result.mismatches.join('\n')}`);
+    }
+    return result;
+};
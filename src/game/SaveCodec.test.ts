@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSave, encodeSave, exportSave, getSavePreview, importSave } from './SaveCodec';
+import { makeSave } from './testSaves';
+
+describe('encodeSave / decodeSave', () => {
+    it('round-trips a save', () => {
+        const save = makeSave();
+        expect(decodeSave(encodeSave(save))).toEqual(save);
+    });
+
+    it('rejects text that is not a save', () => {
+        expect(() => decodeSave('not base64 json')).toThrow(/not a Gravity Miner save/);
+    });
+});
+
+describe('exportSave / importSave', () => {
+    it('round-trips through the export string', () => {
+        const save = makeSave();
+        const text = exportSave(save);
+        expect(text).toMatch(new RegExp(`^GMSAVE\\.${save.version}\\.[0-9a-f]{8}\\.`));
+        expect(importSave(text)).toEqual(save);
+    });
+
+    it('ignores whitespace added by wrapping', () => {
+        const text = exportSave(makeSave());
+        const wrapped = text.match(/.{1,60}/g)!.join('\n  ');
+        expect(importSave(wrapped)).toEqual(importSave(text));
+    });
+
+    it('rejects other text', () => {
+        expect(() => importSave('hello')).toThrow(/Not an exported/);
+        expect(() => importSave(`OTHER.${exportSave(makeSave()).split('.').slice(1).join('.')}`)).toThrow(/Not an exported/);
+    });
+
+    it('catches a damaged payload with the checksum', () => {
+        const [prefix, version, sum, payload] = exportSave(makeSave()).split('.');
+        const flipped = payload.slice(0, 10) + (payload[10] === 'A' ? 'B' : 'A') + payload.slice(11);
+        expect(() => importSave([prefix, version, sum, flipped].join('.'))).toThrow(/checksum mismatch/);
+        expect(() => importSave([prefix, version, sum, payload.slice(0, -4)].join('.'))).toThrow(/checksum mismatch/);
+    });
+
+    it('catches a version header that disagrees with the payload', () => {
+        const [prefix, version, sum, payload] = exportSave(makeSave()).split('.');
+        expect(() => importSave([prefix, Number(version) - 1, sum, payload].join('.'))).toThrow(/version header mismatch/);
+    });
+});
+
+describe('getSavePreview', () => {
+    it('summarises the save', () => {
+        const save = makeSave({ money: '5000', runMaxDepth: 321, prestigeCount: 2, cores: 1 });
+        expect(getSavePreview(save)).toEqual({ money: 5000n, depth: 321, prestigeCount: 2, cores: 1, savedAt: save.lastActiveTime });
+    });
+});
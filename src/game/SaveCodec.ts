@@ -0,0 +1,71 @@
+import { parseMoney } from './Money';
+import { migrateSave, type SaveData } from './SaveSchema';
+
+// First field of an exported save string, tells it apart from anything else on the clipboard
+const EXPORT_PREFIX = 'GMSAVE';
+
+// What the import screen shows before a save replaces the current one
+export interface SavePreview {
+    money: bigint;
+    depth: number; // Deepest point of the saved run in meters
+    prestigeCount: number;
+    cores: number;
+    savedAt: number;
+}
+
+// Base64 JSON, as kept in localStorage
+export const encodeSave = (data: SaveData): string => btoa(JSON.stringify(data));
+
+const parseEncoded = (encoded: string): unknown => {
+    try {
+        return JSON.parse(atob(encoded));
+    } catch {
+        throw new Error('Invalid save: not a Gravity Miner save');
+    }
+};
+
+// Reverses encodeSave and brings the save up to the current version (throws on malformed data)
+export const decodeSave = (encoded: string): SaveData => migrateSave(parseEncoded(encoded));
+
+// 32-bit FNV-1a as 8 hex digits, catches truncated or mistyped pastes
+const checksum = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Portable save: "GMSAVE.<version>.<checksum>.<base64 payload>"
+export const exportSave = (data: SaveData): string => {
+    const payload = encodeSave(data);
+    return [EXPORT_PREFIX, data.version, checksum(payload), payload].join('.');
+};
+
+// Checks the header of an exported save and decodes it; the result is ready for loadGame
+export const importSave = (text: string): SaveData => {
+    const parts = text.replace(/\s+/g, '').split('.'); // Pasting can wrap long lines
+    if (parts.length !== 4 || parts[0] !== EXPORT_PREFIX) {
+        throw new Error('Not an exported Gravity Miner save');
+    }
+
+    const [, version, sum, payload] = parts;
+    if (checksum(payload) !== sum) {
+        throw new Error('Save is damaged (checksum mismatch)');
+    }
+
+    const parsed = parseEncoded(payload);
+    if (String((parsed as { version?: unknown } | null)?.version ?? 1) !== version) {
+        throw new Error('Save is damaged (version header mismatch)');
+    }
+    return migrateSave(parsed);
+};
+
+export const getSavePreview = (data: SaveData): SavePreview => ({
+    money: parseMoney(data.money),
+    depth: data.runMaxDepth,
+    prestigeCount: data.prestigeCount,
+    cores: data.cores,
+    savedAt: data.lastActiveTime
+});
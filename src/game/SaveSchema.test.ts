@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { NewerSaveError, SAVE_VERSION, migrateSave, validateSave } from './SaveSchema';
+import Simulation from './Simulation';
+import { makeSave } from './testSaves';
+
+// A save as the original single-file game wrote it: float money, six upgrades, no seed or version
+const baselineSave = (): Record<string, unknown> => ({
+    money: 1234.56,
+    settings: { showHp: false, volume: 0.2, sfxBlocks: true, sfxBounce: false },
+    upgrades: { damage: 3, gravity: 2, efficiency: 1, bitBoosters: 1, explosiveBlocks: 0, cashBoosters: 2 },
+    bitBoosterTimer: 0,
+    cashBoosterTimer: 1200,
+    prestigeCount: 1,
+    offsetY: -183.7,
+    maxRowGenerated: 1,
+    rowHeight: 61.584,
+    canvasWidth: 1280,
+    canvasHeight: 720,
+    lastActiveTime: 1_600_000_000_000,
+    balls: [{ x: 563.28, y: -53.96, dx: 1.16, dy: -12.45, radius: 12.32, damage: 3 }],
+    blocks: [
+        { x: 320, y: 277.06, row: 0, col: 0, hp: 1, maxHp: 1, value: 10.5, color: 'hsl(25, 50%, 45%)', radius: 40.06, type: 'normal', typeRolled: true },
+        { x: 391.11, y: 277.06, row: 0, col: 1, hp: 2, maxHp: 2, value: 10.5, color: 'hsl(25, 50%, 45%)', radius: 40.06, type: 'explosive' }
+    ]
+});
+
+// The same run as a save from before versions: one ball, number money, none of the later fields
+const makeLegacySave = (): Record<string, unknown> => {
+    const save: Record<string, unknown> = structuredClone(makeSave()) as unknown as Record<string, unknown>;
+    const balls = save.balls as unknown[];
+    save.ball = balls[0];
+    save.money = 1234;
+    save.settings = { showHp: false, volume: 0.2, sfxBlocks: true, sfxBounce: false };
+    for (const key of ['version', 'balls', 'autoBuyer', 'autoPrestige', 'prestigeLog', 'runStartedAt', 'lastActiveTime',
+        'prestigePoints', 'prestigePointsEarned', 'prestigeTree', 'runEarnings', 'runMaxDepth', 'cores', 'coreResets']) {
+        delete save[key];
+    }
+    return save;
+};
+
+describe('migrateSave', () => {
+    it('passes a current save through unchanged', () => {
+        const save = makeSave();
+        expect(migrateSave(structuredClone(save))).toEqual(save);
+    });
+
+    it('brings an unversioned save up to the current version', () => {
+        const migrated = migrateSave(makeLegacySave());
+        expect(migrated.version).toBe(SAVE_VERSION);
+        expect(migrated.balls).toHaveLength(1);
+        expect(migrated).not.toHaveProperty('ball');
+        expect(migrated.money).toBe('1234');
+        expect(migrated.settings).toEqual({ showHp: false, volume: 0.2, sfxBlocks: true, sfxBounce: false, numberFormat: 'suffix' });
+        expect(migrated.prestigeTree.damage).toBe(0);
+        expect(migrated.cores).toBe(0);
+    });
+
+    it('brings a save from the original game up to a loadable one', () => {
+        const migrated = migrateSave(baselineSave());
+        expect(validateSave(migrated as unknown as Record<string, unknown>)).toEqual([]);
+        expect(migrated.money).toBe('1234');
+        expect(migrated.upgrades).toMatchObject({ damage: 3, cashBoosters: 2, lightningBlocks: 0, refinery: 0 });
+        expect(migrated.blocks[1]).toMatchObject({ type: 'explosive', typeRolled: false, frozen: false, armor: 0 });
+        expect(migrated.caveSeed).toBe((Math.imul(migrated.seed, 0x9E3779B1) ^ 0x5BD1E995) >>> 0);
+        expect(migrated.lastActiveTime).toBe(1_600_000_000_000);
+
+        const sim = new Simulation(1280, 720, 7);
+        sim.loadState(migrated);
+        for (let i = 0; i < 60; i++) sim.advance(16.667);
+        expect(sim.balls).toHaveLength(1);
+        expect(Number.isFinite(sim.balls[0].y)).toBe(true);
+    });
+
+    it('leaves the caller\'s copy untouched', () => {
+        const legacy = makeLegacySave();
+        const before = structuredClone(legacy);
+        migrateSave(legacy);
+        expect(legacy).toEqual(before);
+    });
+
+    it('lists every malformed field', () => {
+        const save = { ...makeSave(), money: 'lots', subSteps: 0 };
+        expect(() => migrateSave(save)).toThrow(/money is missing or malformed\nsubSteps is missing or malformed/);
+    });
+
+    it('rejects saves that are not objects or have a bad version', () => {
+        expect(() => migrateSave(null)).toThrow(/not an object/);
+        expect(() => migrateSave([])).toThrow(/not an object/);
+        expect(() => migrateSave({ ...makeSave(), version: 0 })).toThrow(/bad version/);
+        expect(() => migrateSave({ ...makeSave(), version: 'x' })).toThrow(/bad version/);
+    });
+
+    it('refuses saves from a newer version with a distinct error', () => {
+        expect(() => migrateSave({ ...makeSave(), version: SAVE_VERSION + 1 })).toThrow(NewerSaveError);
+        expect(() => migrateSave({ ...makeSave(), money: 'lots' })).not.toThrow(NewerSaveError);
+    });
+});
@@ -0,0 +1,201 @@
+import type { AutoBuyerConfig } from './AutoBuyer';
+import type { AutoPrestigeConfig, PrestigeLogEntry } from './AutoPrestige';
+import { toMoney } from './Money';
+import { isNotation, type NumberNotation } from './NumberFormat';
+import { ORE_TYPES } from './Ores';
+import { PRESTIGE_NODE_IDS } from './PrestigeTree';
+import Random from './Random';
+import { MONEY_UPGRADES, ORE_UPGRADES, type SimulationState } from './Simulation';
+
+// Bump together with a new entry in MIGRATIONS whenever the saved shape changes
+export const SAVE_VERSION = 4;
+
+export interface SaveData extends SimulationState {
+    version: number; // SAVE_VERSION when written
+    settings: {
+        showHp: boolean;
+        volume: number;
+        sfxBlocks: boolean;
+        sfxBounce: boolean;
+        numberFormat: NumberNotation;
+    };
+    autoBuyer: AutoBuyerConfig;
+    autoPrestige: AutoPrestigeConfig;
+    prestigeLog: PrestigeLogEntry[]; // Newest first
+    runStartedAt: number; // Timestamp the current run began (first load or last prestige)
+    lastActiveTime: number; // Timestamp when game was last active
+}
+
+// A save written by a newer build: not damaged, just unreadable here, so it must be left alone
+export class NewerSaveError extends Error {}
+
+// A parsed save of any version, before migration
+type SaveRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is SaveRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Object entries of an array field, anything else is left for validation to reject
+const records = (value: unknown): SaveRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+// Sets every key of `defaults` that `target` is missing
+const fill = (target: SaveRecord, defaults: SaveRecord) => {
+    for (const key of Object.keys(defaults)) {
+        if (target[key] === undefined) target[key] = defaults[key];
+    }
+};
+
+/**
+ * Upgrades a save by one version: MIGRATIONS[n] turns a version n + 1 save into version n + 2.
+ * Saves written before the version field existed count as version 1 and run every step.
+ * Versions 2 and 3 were never written; they mark the original single-save game and the builds before
+ * automation, so each step covers the fields those builds added, in the order they shipped.
+ * Every key list and default below is spelled out as it was at that version instead of read from the
+ * current game, so old steps keep producing the same result as the game changes.
+ */
+const MIGRATIONS: Array<(data: SaveRecord) => void> = [
+    // 1 -> 2: the original game, with its single-ball saves and optional upgrades and timers
+    data => {
+        if (!Array.isArray(data.balls)) data.balls = isRecord(data.ball) ? [data.ball] : [];
+        delete data.ball;
+
+        const upgrades = isRecord(data.upgrades) ? data.upgrades : {};
+        fill(upgrades, { damage: 1, gravity: 1, efficiency: 1, bitBoosters: 0, explosiveBlocks: 0, cashBoosters: 0 });
+        data.upgrades = upgrades;
+        fill(data, { bitBoosterTimer: 0, cashBoosterTimer: 0, prestigeCount: 0 });
+
+        for (const ball of records(data.balls)) fill(ball, { damage: 1 });
+        // Unrolled blocks get a chance to roll for special types once loaded
+        for (const block of records(data.blocks)) fill(block, { type: 'normal', typeRolled: false });
+
+        data.settings = { showHp: true, volume: 0.5, sfxBlocks: true, sfxBounce: true, ...(isRecord(data.settings) ? data.settings : {}) };
+    },
+    // 2 -> 3: the headless simulation builds, up to big-number money
+    data => {
+        // Seeded worlds; saves from before get a fresh seed, as the game did when loading them
+        if (data.seed === undefined) data.seed = Random.randomSeed();
+        fill(data, { rngState: data.seed });
+        // Row window, fixed timestep and ball collisions
+        fill(data, { minRowLoaded: 0, subSteps: 4, stepAccumulator: 0, ballCollisions: false });
+
+        // Lightning, multiball, magnet and freeze blocks, then ore-priced upgrades
+        const upgrades = data.upgrades as SaveRecord;
+        fill(upgrades, { lightningBlocks: 0, multiballBlocks: 0, magnetBlocks: 0, freezeBlocks: 0 });
+        fill(upgrades, { armorPiercing: 0, prospecting: 0, refinery: 0 });
+        fill(data, { magnetTimer: 0, magnetX: 0 });
+        // Frozen blocks, then armour and bedrock
+        for (const block of records(data.blocks)) fill(block, { frozen: false, armor: 0, unbreakable: false });
+
+        data.resources = { copper: 0, silver: 0, gold: 0, diamond: 0, ...(isRecord(data.resources) ? data.resources : {}) };
+        // Caves: worlds from before derived their cave seed from the world seed
+        if (typeof data.seed === 'number') fill(data, { caveSeed: (Math.imul(data.seed, 0x9E3779B1) ^ 0x5BD1E995) >>> 0 });
+        fill(data, { bosses: [], bossTrophies: [] });
+
+        // Big-number money is stored as a decimal string, number notation setting
+        if (typeof data.money === 'number') data.money = toMoney(data.money).toString();
+        if (isRecord(data.settings)) fill(data.settings, { numberFormat: 'suffix' });
+    },
+    // 3 -> 4: automation, prestige tree and Core Reset
+    data => {
+        const now = Date.now();
+        fill(data, {
+            autoBuyer: {
+                enabled: false, strategy: 'cheapest', reserve: '0',
+                upgrades: { damage: true, gravity: true, efficiency: true }, links: []
+            },
+            autoPrestige: { enabled: false, depth: 1000, benefit: 0 },
+            prestigeLog: [],
+            runStartedAt: now,
+            lastActiveTime: now,
+            prestigePoints: 0,
+            prestigePointsEarned: 0,
+            runEarnings: '0',
+            runMaxDepth: 0,
+            cores: 0,
+            coreResets: 0
+        });
+        const tree = isRecord(data.prestigeTree) ? data.prestigeTree : {};
+        fill(tree, { damage: 0, startingMoney: 0, offlineRate: 0, blockCaps: 0, keepUpgrades: 0 });
+        data.prestigeTree = tree;
+    }
+];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isCount = (value: unknown): boolean => isNumber(value) && Number.isInteger(value) && value >= 0;
+const isDecimal = (value: unknown): boolean => typeof value === 'string' && /^\d+$/.test(value);
+
+// Every problem with a migrated save, empty when it matches SaveData
+export const validateSave = (data: SaveRecord): string[] => {
+    const problems: string[] = [];
+    const expect = (ok: boolean, path: string) => {
+        if (!ok) problems.push(`${path} is missing or malformed`);
+    };
+
+    expect(isDecimal(data.money), 'money');
+    expect(isDecimal(data.runEarnings), 'runEarnings');
+    for (const key of ['seed', 'rngState', 'caveSeed', 'offsetY', 'bitBoosterTimer', 'cashBoosterTimer', 'magnetTimer', 'magnetX',
+        'stepAccumulator', 'runMaxDepth', 'prestigePoints', 'prestigePointsEarned', 'runStartedAt', 'lastActiveTime']) {
+        expect(isNumber(data[key]), key);
+    }
+    for (const key of ['prestigeCount', 'cores', 'coreResets', 'maxRowGenerated', 'minRowLoaded', 'subSteps']) {
+        expect(isCount(data[key]), key);
+    }
+    for (const key of ['rowHeight', 'canvasWidth', 'canvasHeight']) {
+        expect(isNumber(data[key]) && (data[key] as number) > 0, key);
+    }
+    expect((data.subSteps as number) >= 1, 'subSteps');
+    expect(typeof data.ballCollisions === 'boolean', 'ballCollisions');
+
+    const upgrades = isRecord(data.upgrades) ? data.upgrades : {};
+    for (const type of [...MONEY_UPGRADES, ...ORE_UPGRADES]) expect(isCount(upgrades[type]), `upgrades.${type}`);
+    const resources = isRecord(data.resources) ? data.resources : {};
+    for (const ore of ORE_TYPES) expect(isNumber(resources[ore]), `resources.${ore}`);
+    const tree = isRecord(data.prestigeTree) ? data.prestigeTree : {};
+    for (const node of PRESTIGE_NODE_IDS) expect(isCount(tree[node]), `prestigeTree.${node}`);
+
+    expect(Array.isArray(data.balls) && records(data.balls).length === data.balls.length, 'balls');
+    records(data.balls).forEach((ball, i) => {
+        for (const key of ['x', 'y', 'dx', 'dy', 'radius', 'damage']) expect(isNumber(ball[key]), `balls[${i}].${key}`);
+    });
+    expect(Array.isArray(data.blocks) && records(data.blocks).length === data.blocks.length, 'blocks');
+    records(data.blocks).forEach((block, i) => {
+        for (const key of ['x', 'y', 'row', 'col', 'hp', 'maxHp', 'value', 'radius']) expect(isNumber(block[key]), `blocks[${i}].${key}`);
+        expect(typeof block.type === 'string' && typeof block.color === 'string', `blocks[${i}].type`);
+    });
+    expect(Array.isArray(data.bosses) && records(data.bosses).length === data.bosses.length, 'bosses');
+    expect(Array.isArray(data.bossTrophies) && data.bossTrophies.every(isNumber), 'bossTrophies');
+
+    const settings = isRecord(data.settings) ? data.settings : {};
+    expect(isNumber(settings.volume), 'settings.volume');
+    for (const key of ['showHp', 'sfxBlocks', 'sfxBounce']) expect(typeof settings[key] === 'boolean', `settings.${key}`);
+    expect(typeof settings.numberFormat === 'string' && isNotation(settings.numberFormat), 'settings.numberFormat');
+
+    expect(isRecord(data.autoBuyer), 'autoBuyer');
+    expect(isRecord(data.autoPrestige), 'autoPrestige');
+    expect(Array.isArray(data.prestigeLog), 'prestigeLog');
+
+    return problems;
+};
+
+// Brings a parsed save of any version up to SAVE_VERSION; throws instead of returning half-valid data
+export const migrateSave = (raw: unknown): SaveData => {
+    if (!isRecord(raw)) throw new Error('Invalid save: not an object');
+
+    const data = structuredClone(raw); // Migrations edit nested objects, the caller's copy stays untouched
+    const version = data.version ?? 1;
+    if (!isCount(version) || (version as number) < 1) throw new Error(`Invalid save: bad version ${String(data.version)}`);
+    if ((version as number) > SAVE_VERSION) {
+        throw new NewerSaveError(`Save is from a newer version of the game (v${version}, this game reads up to v${SAVE_VERSION})`);
+    }
+
+    for (let v = version as number; v < SAVE_VERSION; v++) {
+        MIGRATIONS[v - 1](data);
+        data.version = v + 1;
+    }
+
+    const problems = validateSave(data);
+    if (problems.length > 0) {
+        throw new Error(`Invalid save:\n${problems.join('\n')}`);
+    }
+    return data as unknown as SaveData;
+};
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { encodeSave } from './SaveCodec';
+import SaveSlots from './SaveSlots';
+import { MemorySaveStorage, createSaveStorage, type SaveStorage } from './SaveStorage';
+import { makeSave } from './testSaves';
+
+// Memory storage without room for backups, like localStorage
+const smallStorage = (): SaveStorage => {
+    const memory = new MemorySaveStorage();
+    return {
+        name: 'small',
+        keepsBackups: false,
+        getItem: key => memory.getItem(key),
+        setItem: (key, value) => memory.setItem(key, value),
+        removeItem: key => memory.removeItem(key),
+        keys: () => memory.keys()
+    };
+};
+
+const writeSave = (slots: SaveSlots, slot: number, prestigeCount: number) => {
+    const save = makeSave({ prestigeCount, lastActiveTime: Date.now() });
+    slots.write(slot, encodeSave(save), save);
+};
+
+const storedKeys = (storage: SaveStorage) => storage.keys().sort();
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('SaveSlots', () => {
+    it('picks up a save from before slots in the first slot', () => {
+        const save = makeSave({ prestigeCount: 3 });
+        const slots = new SaveSlots(new MemorySaveStorage({ gravity_miner_save_v1: encodeSave(save) }));
+        expect(slots.getInfo(0)).toMatchObject({ name: 'Save 1', prestigeCount: 3, lastPlayed: save.lastActiveTime });
+        expect(slots.findEmptySlot()).toBe(1);
+    });
+
+    it('keeps names, copies and deletions across reloads', () => {
+        const storage = new MemorySaveStorage();
+        let slots = new SaveSlots(storage);
+        writeSave(slots, 0, 1);
+        slots.rename(0, '  Main run  ');
+        slots.copy(0, 2);
+        slots.lastSlot = 2;
+
+        slots = new SaveSlots(storage);
+        expect(slots.getInfo(0)?.name).toBe('Main run');
+        expect(slots.getInfo(2)?.name).toBe('Main run (copy)');
+        expect(slots.read(2)).toBe(slots.read(0));
+        expect(slots.lastSlot).toBe(2);
+
+        slots.remove(0);
+        expect(new SaveSlots(storage).isEmpty(0)).toBe(true);
+    });
+
+    it('carries the best depth over when a later save is shallower', () => {
+        const slots = new SaveSlots(new MemorySaveStorage());
+        const deep = makeSave({ runMaxDepth: 500 });
+        const shallow = makeSave({ runMaxDepth: 20 });
+        slots.write(1, encodeSave(deep), deep);
+        slots.write(1, encodeSave(shallow), shallow);
+        expect(slots.getInfo(1)?.maxDepth).toBe(500);
+    });
+
+    it('rotates at most three backups, one per interval', () => {
+        vi.useFakeTimers({ now: 1_800_000_000_000 });
+        const storage = new MemorySaveStorage();
+        const slots = new SaveSlots(storage);
+        for (let i = 0; i < 5; i++) {
+            writeSave(slots, 0, i);
+            writeSave(slots, 0, i); // Within the interval: no extra backup
+            vi.advanceTimersByTime(11 * 60 * 1000);
+        }
+        expect(storedKeys(storage)).toEqual([
+            'gravity_miner_save_v1', 'gravity_miner_save_v1_backup_1', 'gravity_miner_save_v1_backup_2', 'gravity_miner_save_v1_backup_3', 'gravity_miner_slots'
+        ]);
+    });
+
+    it('keeps no backups on small storage', () => {
+        const storage = smallStorage();
+        const slots = new SaveSlots(storage);
+        writeSave(slots, 0, 1);
+        writeSave(slots, 0, 2);
+        expect(storedKeys(storage)).toEqual(['gravity_miner_save_v1', 'gravity_miner_slots']);
+    });
+
+    it('replaces a damaged save with its newest backup and keeps the damaged copy', () => {
+        vi.useFakeTimers({ now: 1_800_000_000_000 });
+        const storage = new MemorySaveStorage();
+        const slots = new SaveSlots(storage);
+        writeSave(slots, 1, 1);
+        vi.advanceTimersByTime(11 * 60 * 1000);
+        writeSave(slots, 1, 2); // Backs up the prestige 1 save
+        storage.setItem('gravity_miner_save_slot_2', 'damaged');
+
+        expect(slots.reject(1)).toBe(true);
+        expect(slots.getInfo(1)?.prestigeCount).toBe(1);
+        expect(storage.getItem('gravity_miner_save_slot_2_rejected')).toBe('damaged');
+        expect(storage.getItem('gravity_miner_save_slot_2_backup_1')).toBeNull();
+    });
+
+    it('sets a damaged save without backups aside in its own slot key', () => {
+        const storage = new MemorySaveStorage({ gravity_miner_save_v1: 'bad 1', gravity_miner_save_slot_3: 'bad 3' });
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const slots = new SaveSlots(storage);
+        expect(slots.reject(0)).toBe(false);
+        expect(slots.reject(2)).toBe(false);
+        expect(slots.isEmpty(0)).toBe(true);
+        expect(storage.getItem('gravity_miner_save_v1_rejected')).toBe('bad 1');
+        expect(storage.getItem('gravity_miner_save_slot_3_rejected')).toBe('bad 3');
+    });
+});
+
+describe('createSaveStorage', () => {
+    it('falls back to memory when the browser stores are missing', async () => {
+        const storage = await createSaveStorage();
+        expect(storage.name).toBe('memory');
+        storage.setItem('gravity_miner_test', 'value');
+        expect(storage.getItem('gravity_miner_test')).toBe('value');
+    });
+
+    it('gives up on an IndexedDB that never opens', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.stubGlobal('indexedDB', { open: () => ({}) }); // A request that never fires, like a blocked upgrade
+        const opening = createSaveStorage();
+        await vi.advanceTimersByTimeAsync(5000);
+        expect((await opening).name).toBe('memory');
+    });
+});
@@ -0,0 +1,205 @@
+import { decodeSave } from './SaveCodec';
+import type { SaveData } from './SaveSchema';
+import type { SaveStorage } from './SaveStorage';
+
+// What the title screen shows for a slot, kept in the index so it never has to decode a save
+export interface SaveSlotInfo {
+    name: string;
+    lastPlayed: number;
+    maxDepth: number; // Deepest point ever reached in this slot, in meters
+    prestigeCount: number;
+    cores: number;
+}
+
+interface SaveSlotIndex {
+    lastSlot: number; // Slot the title screen previews and highlights
+    slots: Array<SaveSlotInfo | null>; // null = empty
+    backedUpAt: number[]; // Per slot, when its newest backup was taken (0 = no backups)
+}
+
+export const SAVE_SLOT_COUNT = 3;
+export const MAX_SLOT_NAME_LENGTH = 24;
+
+// Rotating backups, only on storage with room for them
+const BACKUP_COUNT = 3;
+const BACKUP_INTERVAL = 10 * 60 * 1000; // At most one new backup per slot every 10 minutes
+
+const INDEX_KEY = 'gravity_miner_slots';
+
+// The first slot keeps the key of the single save from before slots, so existing progress shows up there
+const slotKey = (slot: number): string => (slot === 0 ? 'gravity_miner_save_v1' : `gravity_miner_save_slot_${slot + 1}`);
+
+// Last save of the slot that failed to load, kept for recovery
+const rejectedKey = (slot: number): string => `${slotKey(slot)}_rejected`;
+
+// Newest backup is 1
+const backupKey = (slot: number, backup: number): string => `${slotKey(slot)}_backup_${backup}`;
+
+export const defaultSlotName = (slot: number): string => `Save ${slot + 1}`;
+
+/**
+ * Encoded saves in a SaveStorage, one per slot, plus an index with each slot's name and summary.
+ * Slots holding a save without an index entry (saves from before slots) get one built on first use.
+ * When the storage keeps backups, overwriting a slot first rotates its previous save into a backup,
+ * and a save that fails to load is replaced by the newest backup.
+ */
+class SaveSlots {
+  private storage: SaveStorage;
+  private index: SaveSlotIndex;
+
+  constructor(storage: SaveStorage) {
+      this.storage = storage;
+      this.index = this.readIndex();
+  }
+
+  get lastSlot(): number {
+      return this.index.lastSlot;
+  }
+
+  set lastSlot(slot: number) {
+      this.index.lastSlot = slot;
+      this.writeIndex();
+  }
+
+  getInfo(slot: number): SaveSlotInfo | null {
+      return this.index.slots[slot];
+  }
+
+  isEmpty(slot: number): boolean {
+      return this.index.slots[slot] === null;
+  }
+
+  // First slot without a save, or -1 when all are taken
+  findEmptySlot(): number {
+      return this.index.slots.indexOf(null);
+  }
+
+  read(slot: number): string | null {
+      return this.storage.getItem(slotKey(slot));
+  }
+
+  // Stores an encoded save and refreshes the slot's summary (the name and best depth carry over)
+  write(slot: number, encoded: string, data: SaveData) {
+      this.rotateBackups(slot);
+      this.storage.setItem(slotKey(slot), encoded);
+      const previous = this.index.slots[slot];
+      this.index.slots[slot] = {
+          name: previous?.name ?? defaultSlotName(slot),
+          lastPlayed: data.lastActiveTime,
+          maxDepth: Math.max(previous?.maxDepth ?? 0, data.runMaxDepth),
+          prestigeCount: data.prestigeCount,
+          cores: data.cores
+      };
+      this.writeIndex();
+  }
+
+  remove(slot: number) {
+      this.storage.removeItem(slotKey(slot));
+      this.clearBackups(slot);
+      this.index.slots[slot] = null;
+      this.writeIndex();
+  }
+
+  // Duplicates a slot into another one, overwriting it
+  copy(from: number, to: number) {
+      const encoded = this.read(from);
+      const info = this.index.slots[from];
+      if (!encoded || !info) return;
+      this.storage.setItem(slotKey(to), encoded);
+      this.clearBackups(to);
+      this.index.slots[to] = { ...info, name: `${info.name} (copy)`.slice(0, MAX_SLOT_NAME_LENGTH) };
+      this.writeIndex();
+  }
+
+  rename(slot: number, name: string) {
+      const info = this.index.slots[slot];
+      const trimmed = name.trim().slice(0, MAX_SLOT_NAME_LENGTH);
+      if (!info || !trimmed) return;
+      info.name = trimmed;
+      this.writeIndex();
+  }
+
+  /**
+   * Moves a damaged save out of its slot (into the slot's own rejected key) so the next autosave can't destroy it.
+   * Returns true when the newest backup took its place and is worth loading instead.
+   */
+  reject(slot: number): boolean {
+      const encoded = this.read(slot);
+      if (encoded) this.storage.setItem(rejectedKey(slot), encoded);
+
+      const backup = this.storage.getItem(backupKey(slot, 1));
+      if (!backup) {
+          this.remove(slot);
+          return false;
+      }
+
+      // Promote the newest backup and shift the older ones up
+      this.storage.setItem(slotKey(slot), backup);
+      for (let i = 1; i < BACKUP_COUNT; i++) this.moveItem(backupKey(slot, i + 1), backupKey(slot, i));
+      this.storage.removeItem(backupKey(slot, BACKUP_COUNT));
+      this.index.slots[slot] = { ...this.buildInfo(slot), name: this.index.slots[slot]?.name ?? defaultSlotName(slot) };
+      this.writeIndex();
+      return true;
+  }
+
+  // Copies the slot's current save into backup 1, pushing older ones down, if the last backup is old enough
+  private rotateBackups(slot: number) {
+      const current = this.read(slot);
+      if (!this.storage.keepsBackups || !current) return;
+      const now = Date.now();
+      if (now - this.index.backedUpAt[slot] < BACKUP_INTERVAL) return;
+
+      for (let i = BACKUP_COUNT; i > 1; i--) this.moveItem(backupKey(slot, i - 1), backupKey(slot, i));
+      this.storage.setItem(backupKey(slot, 1), current);
+      this.index.backedUpAt[slot] = now; // Written with the index by write()
+  }
+
+  private clearBackups(slot: number) {
+      for (let i = 1; i <= BACKUP_COUNT; i++) this.storage.removeItem(backupKey(slot, i));
+      this.index.backedUpAt[slot] = 0;
+  }
+
+  // Moves a value between keys, clearing the target when there is nothing to move
+  private moveItem(from: string, to: string) {
+      const value = this.storage.getItem(from);
+      if (value === null) this.storage.removeItem(to);
+      else this.storage.setItem(to, value);
+  }
+
+  private readIndex(): SaveSlotIndex {
+      let saved: Partial<SaveSlotIndex> = {};
+      try {
+          saved = JSON.parse(this.storage.getItem(INDEX_KEY) ?? '{}');
+      } catch (e) {
+          console.error("Failed to read save slots:", e);
+      }
+
+      const slots = Array.from({ length: SAVE_SLOT_COUNT }, (_, slot) =>
+          this.read(slot) ? saved.slots?.[slot] ?? this.buildInfo(slot) : null
+      );
+      const lastSlot = saved.lastSlot !== undefined && saved.lastSlot >= 0 && saved.lastSlot < SAVE_SLOT_COUNT ? saved.lastSlot : 0;
+      const backedUpAt = Array.from({ length: SAVE_SLOT_COUNT }, (_, slot) => saved.backedUpAt?.[slot] ?? 0);
+      return { lastSlot, slots, backedUpAt };
+  }
+
+  // Summary of a slot the index doesn't know about yet
+  private buildInfo(slot: number): SaveSlotInfo {
+      const info: SaveSlotInfo = { name: defaultSlotName(slot), lastPlayed: 0, maxDepth: 0, prestigeCount: 0, cores: 0 };
+      try {
+          const data = decodeSave(this.read(slot)!);
+          info.lastPlayed = data.lastActiveTime;
+          info.maxDepth = data.runMaxDepth;
+          info.prestigeCount = data.prestigeCount;
+          info.cores = data.cores;
+      } catch (e) {
+          console.error(`Failed to read save slot ${slot + 1}:`, e);
+      }
+      return info;
+  }
+
+  private writeIndex() {
+      this.storage.setItem(INDEX_KEY, JSON.stringify(this.index));
+  }
+}
+
+export default SaveSlots;
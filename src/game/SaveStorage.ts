@@ -0,0 +1,169 @@
+/**
+ * Key/value store behind SaveSlots. Reads are synchronous so the engine can load on the spot;
+ * backends that persist asynchronously preload everything when created and write through in the background.
+ */
+export interface SaveStorage {
+    readonly name: string; // Shown in logs
+    readonly keepsBackups: boolean; // Room for rotating backups of each slot (localStorage has a small quota)
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void; // May throw when the store is full
+    removeItem(key: string): void;
+    keys(): string[];
+}
+
+// Prefix of every key the game writes, used when moving saves between backends
+export const STORAGE_PREFIX = 'gravity_miner_';
+
+export class LocalSaveStorage implements SaveStorage {
+  readonly name = 'localStorage';
+  readonly keepsBackups = false;
+
+  getItem(key: string): string | null {
+      return localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string) {
+      localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string) {
+      localStorage.removeItem(key);
+  }
+
+  keys(): string[] {
+      return Object.keys(localStorage);
+  }
+}
+
+// Nothing persists; for tests and browsers that block every other store
+export class MemorySaveStorage implements SaveStorage {
+  readonly name = 'memory';
+  readonly keepsBackups = true;
+  private entries: Map<string, string>;
+
+  constructor(entries: Record<string, string> = {}) {
+      this.entries = new Map(Object.entries(entries));
+  }
+
+  getItem(key: string): string | null {
+      return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+      this.entries.set(key, value);
+  }
+
+  removeItem(key: string) {
+      this.entries.delete(key);
+  }
+
+  keys(): string[] {
+      return [...this.entries.keys()];
+  }
+}
+
+const DB_NAME = 'gravity_miner';
+const STORE_NAME = 'saves';
+const OPEN_TIMEOUT = 3000; // Opening waits forever while another tab blocks an upgrade
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+/**
+ * IndexedDB store with an in-memory copy: reads come from the copy, writes update it and queue a transaction.
+ * A failed write is logged, the copy keeps the value so the next save retries it.
+ */
+export class IndexedDbSaveStorage implements SaveStorage {
+  readonly name = 'IndexedDB';
+  readonly keepsBackups = true;
+  private db: IDBDatabase;
+  private entries: Map<string, string>;
+
+  private constructor(db: IDBDatabase, entries: Map<string, string>) {
+      this.db = db;
+      this.entries = entries;
+  }
+
+  static async open(): Promise<IndexedDbSaveStorage> {
+      const openRequest = indexedDB.open(DB_NAME, 1);
+      openRequest.onupgradeneeded = () => openRequest.result.createObjectStore(STORE_NAME);
+      const db = await request(openRequest);
+
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const [keys, values] = await Promise.all([request(store.getAllKeys()), request(store.getAll())]);
+      const entries = new Map(keys.map((key, i) => [String(key), values[i] as string]));
+      return new IndexedDbSaveStorage(db, entries);
+  }
+
+  getItem(key: string): string | null {
+      return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+      this.entries.set(key, value);
+      this.write(store => store.put(value, key), `save ${key}`);
+  }
+
+  removeItem(key: string) {
+      this.entries.delete(key);
+      this.write(store => store.delete(key), `remove ${key}`);
+  }
+
+  keys(): string[] {
+      return [...this.entries.keys()];
+  }
+
+  private write(change: (store: IDBObjectStore) => IDBRequest, action: string) {
+      try {
+          const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+          change(transaction.objectStore(STORE_NAME));
+          transaction.onerror = () => console.error(`[Storage] Failed to ${action}:`, transaction.error);
+      } catch (e) {
+          console.error(`[Storage] Failed to ${action}:`, e);
+      }
+  }
+}
+
+// Copies the game's keys into a fresh store so saves follow when the backend changes
+const adoptSaves = (from: SaveStorage, to: SaveStorage) => {
+    for (const key of from.keys()) {
+        const value = from.getItem(key);
+        if (key.startsWith(STORAGE_PREFIX) && value !== null) to.setItem(key, value);
+    }
+};
+
+const isLocalStorageUsable = (): boolean => {
+    try {
+        return typeof localStorage !== 'undefined' && localStorage !== null;
+    } catch {
+        return false; // Some privacy settings throw on access
+    }
+};
+
+// localStorage, or memory when even that is blocked; never fails
+export const createFallbackStorage = (): SaveStorage =>
+    isLocalStorageUsable() ? new LocalSaveStorage() : new MemorySaveStorage();
+
+const timeout = (ms: number): Promise<never> => new Promise((_, reject) => {
+    setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms);
+});
+
+// IndexedDB when the browser has it, then localStorage, then memory as a last resort
+export const createSaveStorage = async (): Promise<SaveStorage> => {
+    const local = isLocalStorageUsable() ? new LocalSaveStorage() : null;
+
+    if (typeof indexedDB !== 'undefined') {
+        try {
+            const storage = await Promise.race([IndexedDbSaveStorage.open(), timeout(OPEN_TIMEOUT)]);
+            // First run on IndexedDB: bring over the localStorage saves (left in place as a fallback copy)
+            if (local && storage.keys().length === 0) adoptSaves(local, storage);
+            return storage;
+        } catch (e) {
+            console.error("[Storage] IndexedDB unavailable, falling back:", e);
+        }
+    }
+
+    return local ?? new MemorySaveStorage();
+};
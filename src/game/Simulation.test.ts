@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import Simulation from './Simulation';
+
+const makeSim = (money: bigint): Simulation => {
+    const sim = new Simulation(1280, 720, 7);
+    sim.money = money;
+    return sim;
+};
+
+describe('getBulkPurchase', () => {
+    it('prices x1, x10 and x100 from the current level', () => {
+        const sim = makeSim(0n);
+        expect(sim.getBulkPurchase('damage', 1)).toEqual({ levels: 1, cost: 100n });
+        expect(sim.getBulkPurchase('damage', 10)).toEqual({ levels: 10, cost: 11333n });
+        expect(sim.getBulkPurchase('damage', 100)).toEqual({ levels: 100, cost: 81312235507043047279n });
+
+        sim.upgrades.damage = 2;
+        expect(sim.getBulkPurchase('damage', 1)).toEqual({ levels: 1, cost: 150n });
+    });
+
+    it('buys as many levels as the money barely covers on MAX', () => {
+        expect(makeSim(11333n).getBulkPurchase('damage', 'max')).toEqual({ levels: 10, cost: 11333n });
+        expect(makeSim(11332n).getBulkPurchase('damage', 'max').levels).toBe(9);
+    });
+
+    it('shows the next level on MAX when none is affordable', () => {
+        const sim = makeSim(99n);
+        expect(sim.getBulkPurchase('damage', 'max')).toEqual({ levels: 1, cost: 100n });
+        expect(sim.canAffordUpgrade('damage', 'max')).toBe(false);
+        expect(sim.buyUpgrade('damage', 'max')).toBe(false);
+        expect(sim.upgrades.damage).toBe(1);
+    });
+
+    it('caps block upgrades at their max level', () => {
+        const sim = makeSim(10n ** 40n);
+        expect(sim.getBulkPurchase('bitBoosters', 100)).toEqual({ levels: 10, cost: 16999n });
+        sim.upgrades.bitBoosters = 3;
+        expect(sim.getBulkPurchase('bitBoosters', 'max')).toEqual({ levels: 7, cost: 16287n });
+    });
+
+    it('handles money and prices past 2^53', () => {
+        const sim = makeSim(10n ** 30n);
+        sim.upgrades.damage = 201;
+        const { levels, cost } = sim.getBulkPurchase('damage', 1);
+        expect(levels).toBe(1);
+        expect(cost).toBe(16529199107882080301560025935557101118n);
+        expect(sim.buyUpgrade('damage', 1)).toBe(false);
+
+        sim.money = cost;
+        expect(sim.buyUpgrade('damage', 'max')).toBe(true);
+        expect(sim.upgrades.damage).toBe(202);
+        expect(sim.money).toBe(0n);
+    });
+});
@@ -0,0 +1,1557 @@
+import Ball from './Ball';
+import Block from './Block';
+import BlockGrid from './BlockGrid';
+import { getBlockType, getSpawnChances, pickBlockType, blockTypeFromSaveKey, DEFAULT_BLOCK_TYPE, type BlockType } from './BlockTypes';
+import { geometricCost, maxAffordable, parseMoney, toMoney, type PriceCurve } from './Money';
+import { emptyResources, isOreType, pickOre, ORE_TYPES, type OreType, type ResourceCost } from './Ores';
+import Noise from './Noise';
+import { emptyPrestigeTree, getBlockCapBonus, getKeptUpgradeFraction, getOfflineMultiplier, getPrestigeDamageMultiplier, getPrestigeNode, getPrestigeNodeCost, getStartingMoney, PRESTIGE_NODE_IDS, type PrestigeNode, type PrestigeTreeLevels } from './PrestigeTree';
+import Random from './Random';
+import { getStratumAt, type Stratum } from './Strata';
+
+export type UpgradeType = 'damage' | 'gravity' | 'efficiency' | 'bitBoosters' | 'explosiveBlocks' | 'cashBoosters'
+    | 'lightningBlocks' | 'multiballBlocks' | 'magnetBlocks' | 'freezeBlocks'
+    | 'armorPiercing' | 'prospecting' | 'refinery';
+
+// Upgrades that unlock a special block type (0 = locked, capped at Simulation.getBlockUpgradeMaxLevel())
+export const BLOCK_UPGRADES = [
+    'bitBoosters', 'explosiveBlocks', 'cashBoosters', 'lightningBlocks', 'multiballBlocks', 'magnetBlocks', 'freezeBlocks'
+] as const satisfies readonly UpgradeType[];
+
+export type BlockUpgradeType = typeof BLOCK_UPGRADES[number];
+
+export const BLOCK_UPGRADE_MAX_LEVEL = 10; // Before prestige tree bonuses
+
+export const isBlockUpgrade = (type: UpgradeType): type is BlockUpgradeType =>
+    (BLOCK_UPGRADES as readonly UpgradeType[]).includes(type);
+
+// Upgrades paid for with mined ore instead of money (capped at ORE_UPGRADE_MAX_LEVEL)
+export const ORE_UPGRADES = ['armorPiercing', 'prospecting', 'refinery'] as const satisfies readonly UpgradeType[];
+
+export type OreUpgradeType = typeof ORE_UPGRADES[number];
+
+export const ORE_UPGRADE_MAX_LEVEL = 5;
+
+export const isOreUpgrade = (type: UpgradeType): type is OreUpgradeType =>
+    (ORE_UPGRADES as readonly UpgradeType[]).includes(type);
+
+// Upgrades paid for with money
+export type MoneyUpgradeType = Exclude<UpgradeType, OreUpgradeType>;
+
+// Price of each money upgrade: startLevel is the level whose next purchase costs the curve's base
+const X1_5 = [3n, 2n] as const;
+const PRICE_CURVES: Record<MoneyUpgradeType, PriceCurve & { startLevel: number }> = {
+    damage: { base: 100n, ratio: X1_5, startLevel: 1 },
+    gravity: { base: 50n, ratio: [7n, 5n], startLevel: 1 }, // x1.4
+    efficiency: { base: 200n, ratio: [8n, 5n], startLevel: 1 }, // x1.6
+    bitBoosters: { base: 150n, ratio: X1_5, startLevel: 0 },
+    explosiveBlocks: { base: 150n, ratio: X1_5, startLevel: 0 },
+    cashBoosters: { base: 150n, ratio: X1_5, startLevel: 0 },
+    lightningBlocks: { base: 300n, ratio: X1_5, startLevel: 0 },
+    multiballBlocks: { base: 400n, ratio: X1_5, startLevel: 0 },
+    magnetBlocks: { base: 200n, ratio: X1_5, startLevel: 0 },
+    freezeBlocks: { base: 250n, ratio: X1_5, startLevel: 0 }
+};
+
+export const MONEY_UPGRADES = Object.keys(PRICE_CURVES) as MoneyUpgradeType[];
+
+// Levels bought per shop click ('max' = as many as the money covers)
+export type PurchaseAmount = 1 | 10 | 100 | 'max';
+
+export const PURCHASE_AMOUNTS: PurchaseAmount[] = [1, 10, 100, 'max'];
+
+// Physics sub-steps per fixed step offered in settings (more = fewer tunnelling balls, more CPU)
+export const SUB_STEP_OPTIONS: readonly number[] = [1, 2, 4, 8];
+
+// Serializable snapshot of everything the simulation owns (older saves are brought up to this shape by SaveSchema)
+export interface SimulationState {
+    money: string; // Decimal string (bigints don't survive JSON)
+    seed: number; // World seed
+    rngState: number;
+    caveSeed: number; // Seed of the cave noise
+    upgrades: {
+        damage: number;
+        gravity: number;
+        efficiency: number;
+        bitBoosters: number;
+        explosiveBlocks: number;
+        cashBoosters: number;
+        lightningBlocks: number;
+        multiballBlocks: number;
+        magnetBlocks: number;
+        freezeBlocks: number;
+        armorPiercing: number;
+        prospecting: number;
+        refinery: number;
+    };
+    resources: Record<OreType, number>;
+    bitBoosterTimer: number;
+    cashBoosterTimer: number;
+    magnetTimer: number;
+    magnetX: number;
+    prestigeCount: number;
+    prestigePoints: number; // Unspent prestige points
+    prestigePointsEarned: number; // Lifetime total
+    prestigeTree: PrestigeTreeLevels;
+    runEarnings: string; // Money earned since the last prestige, decimal string
+    runMaxDepth: number; // Deepest point of the current run in meters
+    cores: number; // Core Reset currency
+    coreResets: number;
+    offsetY: number;
+    maxRowGenerated: number;
+    minRowLoaded: number;
+    rowHeight: number;
+    canvasWidth: number;
+    canvasHeight: number;
+    subSteps: number;
+    stepAccumulator: number;
+    ballCollisions: boolean;
+    balls: Array<{
+        x: number;
+        y: number;
+        dx: number;
+        dy: number;
+        radius: number;
+        damage: number;
+        lifetime?: number; // Only set on temporary (multiball) balls
+    }>;
+    blocks: Array<{
+        x: number;
+        y: number;
+        row: number;
+        col: number;
+        hp: number;
+        maxHp: number;
+        value: number;
+        color: string;
+        radius: number;
+        type: string; // Block type save key, see BLOCK_TYPES
+        typeRolled: boolean;
+        frozen: boolean;
+        armor: number;
+        unbreakable: boolean;
+        ore?: string; // Missing when the block holds no ore
+        bossId?: number; // Missing outside boss layers
+    }>;
+    bosses: Boss[];
+    bossTrophies: number[];
+}
+
+// A boss layer: several rows of hex cells sharing one HP pool
+export interface Boss {
+    id: number; // First row of the layer, also stored on each cell as bossId
+    hp: number;
+    maxHp: number;
+    value: number; // Money paid out when defeated (before multipliers)
+}
+
+// Hooks for side effects (audio, particles...) that live outside the simulation
+export interface SimulationEvents {
+    blockDestroyed?: (block: Block) => void;
+    bounce?: (intensity: number) => void;
+    bossDefeated?: (boss: Boss, firstKill: boolean) => void;
+}
+
+/**
+ * Headless game world: balls, blocks, economy and timers.
+ * Has no DOM or storage dependencies so it can be stepped with a fixed dt in Node.
+ */
+class Simulation {
+  balls: Ball[]; // Array of balls (starts with 1, increases with prestige)
+  blocks: BlockGrid; // Indexed by hex row/col
+  canvasWidth: number;
+  canvasHeight: number;
+  money: bigint = 0n;
+
+  // Upgrades State
+  upgrades = {
+      damage: 1,
+      gravity: 1,
+      efficiency: 1,
+      bitBoosters: 0,      // 0-10 levels (0 = locked)
+      explosiveBlocks: 0,  // 0-10 levels (0 = locked)
+      cashBoosters: 0,     // 0-10 levels (0 = locked)
+      lightningBlocks: 0,  // 0-10 levels (0 = locked)
+      multiballBlocks: 0,  // 0-10 levels (0 = locked)
+      magnetBlocks: 0,     // 0-10 levels (0 = locked)
+      freezeBlocks: 0,     // 0-10 levels (0 = locked)
+      armorPiercing: 0,    // 0-5 levels, bought with ore
+      prospecting: 0,      // 0-5 levels, bought with ore
+      refinery: 0          // 0-5 levels, bought with ore
+  };
+
+  // Mined ore, spent on ore upgrades
+  resources: Record<OreType, number> = emptyResources();
+
+  // Camera/Scroll offset
+  offsetY: number = -300;
+
+  // Level Generation State
+  maxRowGenerated: number = 0;
+  minRowLoaded: number = 0; // Rows above this have been evicted
+  rowHeight: number = 0;
+  readonly EVICT_DISTANCE_SCREENS: number = 2; // Rows this many screens above the shallowest ball are unloaded
+
+  // Geometry
+  holeWidth: number = 0;
+  holeLeft: number = 0;
+  holeRight: number = 0;
+
+  // Bit Booster Effect State
+  bitBoosterTimer: number = 0;
+  readonly BIT_BOOSTER_DURATION: number = 5000; // 5 seconds
+
+  // Cash Booster Effect State
+  cashBoosterTimer: number = 0;
+  readonly CASH_BOOSTER_DURATION: number = 5000; // 5 seconds
+
+  // Magnet Effect State
+  magnetTimer: number = 0;
+  magnetX: number = 0; // World X the balls are pulled towards
+  readonly MAGNET_DURATION: number = 4000; // 4 seconds
+  readonly MAGNET_STRENGTH: number = 0.01; // Sideways pull per frame, as a fraction of block radius
+
+  // Special Block Tuning
+  readonly LIGHTNING_DAMAGE_MULT: number = 5; // Row damage relative to the drill bit
+  readonly MULTIBALL_DURATION: number = 10000; // 10 seconds
+  readonly MAX_TEMPORARY_BALLS: number = 5;
+  readonly TEMPORARY_BALL_COLOR: string = '#66CCFF';
+
+  // Obstacles (depth-gated)
+  readonly ARMORED_START_ROW: number = 150; // 300m
+  readonly BEDROCK_START_ROW: number = 250; // 500m
+  readonly BEDROCK_COLOR: string = '#3b3b3b';
+
+  // Prestige System
+  prestigeCount: number = 0; // Number of prestiges (starts at 0 = 1 ball, 1 = 2 balls, etc.)
+  readonly PRESTIGE_DEPTH: number = 1000; // Meters required to prestige
+  prestigePoints: number = 0; // Spent in the prestige tree
+  prestigePointsEarned: number = 0;
+  prestigeTree: PrestigeTreeLevels = emptyPrestigeTree();
+  runEarnings: bigint = 0n; // Money earned this run (prestige reward input)
+  runMaxDepth: number = 0; // Deepest point this run in meters (prestige reward input)
+  cores: number = 0; // Earned by Core Resets, each one multiplies damage, block value and prestige points
+  coreResets: number = 0;
+  readonly CORE_RESET_PRESTIGES: number = 5; // Prestiges required for a Core Reset
+  readonly CORE_MULTIPLIER: number = 1.5; // Per core
+
+  // Fixed Timestep
+  readonly FIXED_DT: number = 1000 / 60; // Physics always advances in 60Hz steps
+  readonly MAX_STEPS_PER_FRAME: number = 5; // Drop time beyond this instead of spiralling
+  subSteps: number = 4; // Physics sub-steps per fixed step (picked in the settings menu)
+  stepAccumulator: number = 0; // Frame time not yet consumed by a fixed step
+
+  // Ball-to-ball collisions (toggled from the settings menu)
+  ballCollisions: boolean = false;
+
+  // Offline Progress
+  readonly MAX_OFFLINE_TIME: number = 24 * 60 * 60 * 1000; // 24 hours
+
+  // Seeded random stream for generation rolls and physics jitter
+  rng: Random;
+
+  // Boss Layers
+  bosses: Map<number, Boss> = new Map(); // Live bosses keyed by id (their first row)
+  bossTrophies: number[] = []; // Boss depths (in rows) ever defeated, kept through prestige
+  readonly BOSS_INTERVAL_ROWS: number = 250; // A boss every 500m
+  readonly BOSS_ROWS: number = 3; // Rows of cells per boss
+  readonly BOSS_HP_MULT: number = 1.5; // Pool HP relative to the cells it replaces
+  readonly BOSS_VALUE_MULT: number = 5; // Payout relative to the cells it replaces
+  readonly BOSS_COLOR: string = '#4a0e2e';
+  readonly TROPHY_VALUE_BONUS: number = 0.05; // +5% block value per trophy
+
+  // Caves (carved out of the honeycomb by noise over row/col)
+  caveNoise: Noise;
+  readonly CAVE_START_ROW: number = 15; // Keep the first rows solid
+  readonly CAVE_RAMP_ROWS: number = 100; // Chambers grow to full size over this many rows
+  readonly CHAMBER_THRESHOLD: number = 0.3; // Noise below this is open chamber (at full size)
+  readonly TUNNEL_WIDTH: number = 0.035; // Half-width of the winding tunnel band around noise 0.5
+
+  events: SimulationEvents = {};
+
+  constructor(width: number, height: number, seed: number = Random.randomSeed()) {
+    this.rng = new Random(seed);
+    this.caveNoise = new Noise(Simulation.deriveCaveSeed(this.rng.seed));
+    this.canvasWidth = width;
+    this.canvasHeight = height;
+
+    // Define Hole Geometry
+    this.updateGeometry();
+
+    this.blocks = new BlockGrid();
+
+    // Calc constants for generation based on Hole Width
+    const numColumns = 10;
+    const dx = this.holeWidth / (numColumns - 1);
+    const radius = dx / Math.sqrt(3); // Base radius of block hex
+    this.rowHeight = radius * 1.5;
+
+    // Initialize Ball(s) - start with one ball
+    const groundY = this.getGroundY();
+    const hoverDist = Math.min(this.canvasHeight * 0.3, 250);
+
+    this.balls = [new Ball(
+      width / 2,
+      groundY - hoverDist,
+      radius * 0.3,  // Dynamic ball radius (reduced by 50%)
+      '#ff4444',
+      (this.rng.next() - 0.5) * 4,
+      0,
+      radius * 0.02, // Dynamic Gravity
+      0.98
+    )];
+
+    // Set initial offset to center the view
+    this.offsetY = groundY - (this.canvasHeight * 0.75);
+
+    this.generateRows(0, 40);
+  }
+
+  updateGeometry() {
+    this.holeWidth = this.canvasWidth / 2; // 50% width
+    this.holeLeft = (this.canvasWidth - this.holeWidth) / 2; // Centered
+    this.holeRight = this.holeLeft + this.holeWidth;
+  }
+
+  // Helper to calculate ground Y position dynamically
+  getGroundY() {
+      return Math.max(200, this.canvasHeight * 0.3);
+  }
+
+  getDeepestBall(): Ball {
+      return this.balls.reduce((deepest, ball) => ball.y > deepest.y ? ball : deepest, this.balls[0]);
+  }
+
+  // World Y of row 0's centre
+  getRowStartY(): number {
+      const radius = this.rowHeight / 1.5;
+      return this.getGroundY() + radius + 20;
+  }
+
+  // Row index containing a world Y (may be negative above the first row)
+  getRowAt(y: number): number {
+      return Math.floor((y - this.getRowStartY()) / this.rowHeight);
+  }
+
+  // Depth of the deepest ball in meters, based on row index to be scale-invariant
+  getDepth(): number {
+      const radius = this.rowHeight / 1.5;
+      const startY = this.getGroundY() + radius + 20;
+      return Math.max(0, Math.floor((this.getDeepestBall().y - startY) / this.rowHeight * 2)); // 2m per row
+  }
+
+  canPrestige(): boolean {
+      return this.getDepth() >= this.PRESTIGE_DEPTH;
+  }
+
+  // Prestige points the run is worth now: sqrt of the deepest point (per 100m) times the digits of money earned
+  getPrestigeReward(): number {
+      if (!this.canPrestige()) return 0;
+      const depthFactor = Math.sqrt(this.runMaxDepth / 100);
+      const moneyFactor = Math.max(1, this.runEarnings.toString().length - 1); // log10 of run earnings
+      return Math.floor(depthFactor * moneyFactor * this.getCoreMultiplier());
+  }
+
+  // How much stronger the next run starts if prestiging now, as a multiplier:
+  // one more ball to dig with, scaled by the share of lifetime prestige points this run would add (at most x2)
+  getPrestigeBenefit(): number {
+      const ballGain = (this.prestigeCount + 2) / (this.prestigeCount + 1);
+      const reward = this.getPrestigeReward();
+      return ballGain * (1 + (reward > 0 ? reward / (this.prestigePointsEarned + reward) : 0));
+  }
+
+  // --- Core Reset ---
+
+  canCoreReset(): boolean {
+      return this.prestigeCount >= this.CORE_RESET_PRESTIGES;
+  }
+
+  // Cores a Core Reset is worth now: one per CORE_RESET_PRESTIGES prestiges
+  getCoreReward(): number {
+      return this.canCoreReset() ? Math.floor(this.prestigeCount / this.CORE_RESET_PRESTIGES) : 0;
+  }
+
+  getCoreMultiplier(): number {
+      return Math.pow(this.CORE_MULTIPLIER, this.cores);
+  }
+
+  // Pays money into the run (counted towards the prestige reward)
+  earn(amount: bigint) {
+      this.money += amount;
+      this.runEarnings += amount;
+  }
+
+  // --- Prestige Tree ---
+
+  getDamageMultiplier(): number {
+      return getPrestigeDamageMultiplier(this.prestigeTree) * this.getCoreMultiplier();
+  }
+
+  getBlockUpgradeMaxLevel(): number {
+      return BLOCK_UPGRADE_MAX_LEVEL + getBlockCapBonus(this.prestigeTree);
+  }
+
+  isPrestigeNodeMaxed(node: PrestigeNode): boolean {
+      return this.prestigeTree[node] >= getPrestigeNode(node).maxLevel;
+  }
+
+  // A node opens once its parent has a level
+  isPrestigeNodeUnlocked(node: PrestigeNode): boolean {
+      const { requires } = getPrestigeNode(node);
+      return !requires || this.prestigeTree[requires] > 0;
+  }
+
+  getPrestigeNodeCost(node: PrestigeNode): number {
+      return getPrestigeNodeCost(node, this.prestigeTree[node]);
+  }
+
+  canBuyPrestigeNode(node: PrestigeNode): boolean {
+      return this.isPrestigeNodeUnlocked(node) && !this.isPrestigeNodeMaxed(node)
+          && this.prestigePoints >= this.getPrestigeNodeCost(node);
+  }
+
+  buyPrestigeNode(node: PrestigeNode): boolean {
+      if (!this.canBuyPrestigeNode(node)) return false;
+      this.prestigePoints -= this.getPrestigeNodeCost(node);
+      this.prestigeTree[node]++;
+      return true;
+  }
+
+  // Give the idle balls their initial downward kick when a run starts
+  launchBalls() {
+      // Scale initial velocity by radius to keep gameplay consistent across sizes
+      const radius = this.rowHeight / 1.5;
+      for (const ball of this.balls) {
+          ball.dx = (this.rng.next() - 0.5) * (radius * 0.15); // Scaled horizontal speed
+          ball.dy = radius * 0.4; // Stronger vertical speed (0.4)
+      }
+  }
+
+  resize(width: number, height: number, preview: boolean = false) {
+      // Store old metrics
+      const oldRowHeight = this.rowHeight;
+      const oldRadius = oldRowHeight / 1.5;
+      const oldGroundY = Math.max(200, this.canvasHeight * 0.3); // Re-calculate old groundY
+      const oldStartY = oldGroundY + oldRadius + 20;
+
+      const oldHoleLeft = this.holeLeft;
+      const oldHoleWidth = this.holeWidth;
+
+      // Update Dimensions
+      this.canvasWidth = width;
+      this.canvasHeight = height;
+      this.updateGeometry();
+
+      // Recalculate new constants
+      const numColumns = 10;
+      const dx = this.holeWidth / (numColumns - 1);
+      const radius = dx / Math.sqrt(3);
+      this.rowHeight = radius * 1.5;
+
+      const newGroundY = this.getGroundY();
+      const newStartY = newGroundY + radius + 20;
+
+      // Update all balls' radius
+      for (const ball of this.balls) {
+          ball.radius = radius * 0.3;
+      }
+
+      // Safe Reset while previewing behind the title screen
+      if (preview) {
+          // Reset first ball to center
+          if (this.balls.length > 0) {
+              this.balls[0].x = this.canvasWidth / 2;
+
+              // Position ball relative to ground (hovering above)
+              // Scale hover distance slightly with height but cap it
+              const hoverDist = Math.min(this.canvasHeight * 0.3, 250);
+              this.balls[0].y = newGroundY - hoverDist;
+
+              this.balls[0].dx = (this.rng.next() - 0.5) * 4;
+              this.balls[0].dy = 0;
+          }
+
+          // Position camera so ground is at ~75% of screen height
+          // ScreenY = WorldY - OffsetY  =>  OffsetY = WorldY - ScreenY
+          this.offsetY = newGroundY - (this.canvasHeight * 0.75);
+      } else if (oldRowHeight > 1) {
+          // Update all balls
+          for (const ball of this.balls) {
+              // Vertical
+              const ballRowIndex = (ball.y - oldStartY) / oldRowHeight;
+              ball.y = newStartY + ballRowIndex * this.rowHeight;
+
+              // Horizontal (Ball)
+              if (oldHoleWidth > 0) {
+                  const ballRelX = ball.x - oldHoleLeft;
+                  const ratioX = this.holeWidth / oldHoleWidth;
+                  ball.x = this.holeLeft + ballRelX * ratioX;
+              }
+
+              // Scale Velocity based on Radius change
+              if (oldRadius > 0) {
+                  const currentSpeed = Math.sqrt(ball.dx * ball.dx + ball.dy * ball.dy);
+                  const normalizedSpeed = currentSpeed / oldRadius;
+
+                  let newSpeed = normalizedSpeed * radius;
+
+                  const maxSafeSpeed = radius * 1.0;
+                  if (newSpeed > maxSafeSpeed) newSpeed = maxSafeSpeed;
+
+                  if (currentSpeed > 0.001) {
+                      ball.dx = (ball.dx / currentSpeed) * newSpeed;
+                      ball.dy = (ball.dy / currentSpeed) * newSpeed;
+                  }
+              }
+          }
+
+          // Reset camera to follow deepest ball immediately
+          this.offsetY = this.getDeepestBall().y - this.canvasHeight / 3;
+      }
+
+      // Always update gravity based on new radius for all balls
+      const gravityMult = 1 + (this.upgrades.gravity - 1) * 0.1;
+      for (const ball of this.balls) {
+          ball.gravity = radius * 0.02 * gravityMult;
+      }
+
+      // Update existing blocks
+      for (const block of this.blocks) {
+          block.radius = radius - 1;
+
+          const xOffset = (block.row % 2 === 0) ? 0 : -dx / 2;
+          const cx = block.col * dx + xOffset;
+
+          block.x = cx + this.holeLeft;
+          block.y = newStartY + block.row * this.rowHeight;
+      }
+  }
+
+  generateRows(startRow: number, count: number) {
+    for (let r = startRow; r < startRow + count; r++) {
+        this.generateRow(r);
+    }
+    this.maxRowGenerated = startRow + count;
+  }
+
+  // Fills one row of the hole
+  generateRow(r: number) {
+    if (this.getBossIdAt(r) === r) this.spawnBoss(r);
+
+    const numColumns = 10;
+    const dx = this.holeWidth / (numColumns - 1);
+    const radius = dx / Math.sqrt(3);
+    const dy = this.rowHeight;
+
+    // Use dynamic ground Y
+    const groundY = this.getGroundY();
+    const startY = groundY + radius + 20;
+
+    for (let c = 0; c < numColumns; c++) {
+        const xOffset = (r % 2 === 0) ? 0 : -dx / 2;
+
+        // cx is relative to hole start
+        const cx = c * dx + xOffset;
+
+        // Shift to hole position
+        const finalX = cx + this.holeLeft;
+        const finalY = startY + r * dy;
+
+        // Ensure we stay within visual bounds of the hole mostly
+        // Allow slightly outside for the "half block" effect
+        if (finalX < this.holeLeft - dx || finalX > this.holeRight + dx) continue;
+
+        const { palette } = getStratumAt(r);
+        const hue = palette.hue + (r * 10) % palette.hueRange;
+        const color = `hsl(${hue}, ${palette.saturation}%, ${palette.lightness}%)`;
+
+        // Boss layers replace the whole row with cells of the boss
+        const bossId = this.getBossIdAt(r);
+        if (bossId !== null) {
+            const cell = new Block(finalX, finalY, radius - 1, 1, 0, this.BOSS_COLOR, r, c);
+            cell.bossId = bossId;
+            cell.typeRolled = true; // Never special
+            this.blocks.add(cell);
+            continue;
+        }
+
+        // Carved out by a cave
+        if (this.isCave(r, c)) continue;
+
+        const inHole = finalX >= this.holeLeft && finalX <= this.holeRight;
+
+        // Depth-gated obstacles, only inside the playable hole area
+        const obstacle = inHole ? this.rollObstacle(r, c) : null;
+
+        // Ore veins, rarer metals only show up deeper
+        const ore = inHole && obstacle !== 'bedrock' ? pickOre(r, this.rng.next(), this.getOreChanceMultiplier()) : null;
+
+        // Determine block type based on upgrade levels
+        // Only roll for special types if block is within the playable hole area
+        let blockType: BlockType = DEFAULT_BLOCK_TYPE;
+        if (inHole && obstacle !== 'bedrock') {
+            blockType = pickBlockType(this.getSpawnChancesAt(r), this.rng.next());
+        }
+
+        const block = new Block(
+            finalX,
+            finalY,
+            radius - 1,
+            this.getBlockHp(r),
+            this.getBlockValue(r),
+            color,
+            r, // Row
+            c, // Col
+            blockType
+        );
+        block.typeRolled = true; // Its type was just determined
+
+        if (obstacle === 'bedrock') {
+            block.unbreakable = true;
+            block.color = this.BEDROCK_COLOR;
+            block.typeRolled = true; // Bedrock never becomes a special block
+        } else if (obstacle === 'armored') {
+            block.armor = this.getArmorAt(r);
+            block.value *= 2; // Worth more for the extra effort
+        }
+        block.ore = ore;
+        this.blocks.add(block);
+    }
+  }
+
+  // Id of the boss layer a row belongs to, or null for regular rows
+  getBossIdAt(row: number): number | null {
+      if (row < this.BOSS_INTERVAL_ROWS) return null;
+      const offset = row % this.BOSS_INTERVAL_ROWS;
+      return offset < this.BOSS_ROWS ? row - offset : null;
+  }
+
+  // Creates the shared HP pool when the first row of a boss layer is generated
+  spawnBoss(id: number) {
+      const cellsPerRow = 10;
+      const cells = cellsPerRow * this.BOSS_ROWS;
+      const maxHp = Math.floor(this.getBlockHp(id) * cells * this.BOSS_HP_MULT);
+      this.bosses.set(id, {
+          id,
+          hp: maxHp,
+          maxHp,
+          value: this.getBlockValue(id) * cells * this.BOSS_VALUE_MULT
+      });
+  }
+
+  // Any cell hit drains the shared pool, the whole layer breaks when it empties
+  damageBoss(id: number, amount: number) {
+      const boss = this.bosses.get(id);
+      if (!boss) return;
+
+      boss.hp -= amount;
+      if (boss.hp > 0) return;
+
+      this.bosses.delete(id);
+      for (let r = id; r < id + this.BOSS_ROWS; r++) {
+          for (const cell of this.blocks.getRow(r)) {
+              if (cell.bossId === id) this.blocks.remove(cell);
+          }
+      }
+
+      // Payout, plus a trophy and rare ore the first time this boss falls
+      const cashMultiplier = this.cashBoosterTimer > 0 ? 2 : 1;
+      this.earn(toMoney(Math.ceil(boss.value * this.getValueMultiplier() * cashMultiplier)));
+      const firstKill = !this.bossTrophies.includes(id);
+      if (firstKill) {
+          this.bossTrophies.push(id);
+          this.resources.gold += 3;
+          this.resources.diamond += 1;
+      }
+      this.events.bossDefeated?.(boss, firstKill);
+  }
+
+  // Nearest live boss at or below the camera, for the HUD bar
+  getActiveBoss(): Boss | null {
+      const viewRow = this.getRowAt(this.offsetY);
+      const viewBottomRow = this.getRowAt(this.offsetY + this.canvasHeight);
+      let active: Boss | null = null;
+      for (const boss of this.bosses.values()) {
+          if (boss.id + this.BOSS_ROWS < viewRow || boss.id > viewBottomRow) continue;
+          if (!active || boss.id < active.id) active = boss;
+      }
+      return active;
+  }
+
+  static deriveCaveSeed(worldSeed: number): number {
+      return (Math.imul(worldSeed, 0x9E3779B1) ^ 0x5BD1E995) >>> 0;
+  }
+
+  // Whether a cell is left empty: open chambers from low noise, winding tunnels from a thin noise band
+  isCave(row: number, col: number): boolean {
+      if (row < this.CAVE_START_ROW) return false;
+
+      const ramp = Math.min(1, (row - this.CAVE_START_ROW) / this.CAVE_RAMP_ROWS);
+      const chamber = this.caveNoise.fractal(col / 5, row / 5);
+      if (chamber < this.CHAMBER_THRESHOLD * ramp) return true;
+
+      // Offset so tunnels don't line up with chambers
+      const tunnel = this.caveNoise.fractal(col / 8 + 100, row / 8);
+      return Math.abs(tunnel - 0.5) < this.TUNNEL_WIDTH;
+  }
+
+  // Prospector upgrade: +25% ore chance per level
+  getOreChanceMultiplier(): number {
+      return 1 + this.upgrades.prospecting * 0.25;
+  }
+
+  // Scanner, Refinery, trophy and core bonus applied to every block payout
+  getValueMultiplier(): number {
+      const efficiencyMult = 1 + (this.upgrades.efficiency - 1) * 0.2;
+      const refineryMult = 1 + this.upgrades.refinery * 0.1;
+      const trophyMult = 1 + this.bossTrophies.length * this.TROPHY_VALUE_BONUS;
+      return efficiencyMult * refineryMult * trophyMult * this.getCoreMultiplier();
+  }
+
+  // Block HP and value grow with the row, at a rate set by its stratum
+  getBlockHp(row: number): number {
+      return 1 + Math.floor(row * 0.2 * getStratumAt(row).hpMultiplier);
+  }
+
+  getBlockValue(row: number): number {
+      return 10 + Math.floor(row * 0.5 * getStratumAt(row).valueMultiplier);
+  }
+
+  // Special block chances for a row, weighted by its stratum
+  getSpawnChancesAt(row: number): { type: BlockType; chance: number }[] {
+      const { specialWeights } = getStratumAt(row);
+      return getSpawnChances(this).map(({ type, chance }) => ({ type, chance: chance * (specialWeights[type] ?? 1) }));
+  }
+
+  // Stratum the deepest ball is digging through
+  getCurrentStratum(): Stratum {
+      return getStratumAt(this.getRowAt(this.getDeepestBall().y));
+  }
+
+  // Picks a depth-gated obstacle for a new block
+  // Bedrock is never placed next to other bedrock, so it can't form a wall that seals the hole
+  rollObstacle(row: number, col: number): 'bedrock' | 'armored' | null {
+      if (row < this.ARMORED_START_ROW) return null;
+
+      const bedrockChance = row >= this.BEDROCK_START_ROW ? Math.min(0.06, (row - this.BEDROCK_START_ROW) * 0.0002) : 0;
+      const armoredChance = Math.min(0.15, (row - this.ARMORED_START_ROW) * 0.0005);
+
+      const roll = this.rng.next();
+      if (roll < bedrockChance) {
+          const touchesBedrock = this.getNeighbours({ row, col }).some(block => block.unbreakable);
+          return touchesBedrock ? null : 'bedrock';
+      }
+      if (roll < bedrockChance + armoredChance) return 'armored';
+      return null;
+  }
+
+  // Minimum drill damage that dents an armored block at this row
+  getArmorAt(row: number): number {
+      return 2 + Math.floor((row - this.ARMORED_START_ROW) / 50);
+  }
+
+  // Drops rows far above the shallowest ball so the block index and saves only hold the live window
+  evictRows() {
+      // Evicted rows stay empty: a ball that bounces back up falls through the cleared shaft
+      const shallowestY = Math.min(...this.balls.map(ball => ball.y));
+      const evictBelow = Math.min(this.maxRowGenerated, this.getRowAt(shallowestY - this.canvasHeight * this.EVICT_DISTANCE_SCREENS));
+      for (let r = this.minRowLoaded; r < evictBelow; r++) {
+          this.blocks.removeRow(r);
+      }
+      for (const id of this.bosses.keys()) {
+          if (id + this.BOSS_ROWS <= evictBelow) this.bosses.delete(id);
+      }
+      this.minRowLoaded = Math.max(this.minRowLoaded, evictBelow);
+  }
+
+  rerollExistingBlocks() {
+      // Re-roll all existing blocks in the playable area for special types
+      const chances = getSpawnChances(this);
+      if (chances.every(c => c.chance === 0)) return;
+
+      for (const block of this.blocks) {
+          // Only re-roll blocks within the playable hole area
+          if (block.x < this.holeLeft || block.x > this.holeRight) continue;
+          if (block.unbreakable || block.bossId !== null) continue;
+
+          // Reset the roll flag and re-roll the block
+          block.typeRolled = false;
+          // Resets to normal if it doesn't roll as special
+          block.type = pickBlockType(this.getSpawnChancesAt(block.row), this.rng.next());
+          // Keep the original color based on depth
+
+          block.typeRolled = true;
+      }
+  }
+
+  // Removes a block, pays out its value and triggers its on-destroy effect
+  destroyBlock(block: Block, processedBlocks?: Set<string>) {
+    const cashMultiplier = this.cashBoosterTimer > 0 ? 2 : 1;
+
+    this.blocks.remove(block);
+    this.earn(toMoney(Math.ceil(block.value * this.getValueMultiplier() * cashMultiplier)));
+    if (block.ore) this.resources[block.ore]++;
+    this.events.blockDestroyed?.(block);
+
+    // Trigger special block effects AFTER destroying
+    getBlockType(block.type).onDestroy?.(this, block, processedBlocks);
+  }
+
+  getNeighbours(centerBlock: { row: number; col: number }): Block[] {
+    const { row, col } = centerBlock;
+
+    // Hexagonal neighbors depend on whether row is even or odd
+    // For flat-topped hexagons with offset coordinates:
+    const evenRowOffsets = [
+        [-1, 0], [-1, 1],  // Top-left, Top-right
+        [0, -1], [0, 1],   // Left, Right
+        [1, 0], [1, 1]     // Bottom-left, Bottom-right
+    ];
+    const oddRowOffsets = [
+        [-1, -1], [-1, 0], // Top-left, Top-right
+        [0, -1], [0, 1],   // Left, Right
+        [1, -1], [1, 0]    // Bottom-left, Bottom-right
+    ];
+
+    const offsets = (row % 2 === 0) ? evenRowOffsets : oddRowOffsets;
+
+    const neighbours: Block[] = [];
+    for (const [dRow, dCol] of offsets) {
+        const block = this.blocks.get(row + dRow, col + dCol);
+        if (block) neighbours.push(block);
+    }
+    return neighbours;
+  }
+
+  destroyAdjacentBlocks(centerBlock: Block, processedBlocks: Set<string> = new Set()) {
+    // Create unique ID for this block to prevent infinite recursion
+    const blockId = `${centerBlock.row},${centerBlock.col}`;
+    if (processedBlocks.has(blockId)) return;
+    processedBlocks.add(blockId);
+
+    for (const adjacentBlock of this.getNeighbours(centerBlock)) {
+        // An earlier chain reaction may already have taken it, and bedrock survives explosions
+        if (this.blocks.get(adjacentBlock.row, adjacentBlock.col) !== adjacentBlock) continue;
+        if (adjacentBlock.unbreakable || adjacentBlock.bossId !== null) continue;
+        this.destroyBlock(adjacentBlock, processedBlocks);
+    }
+  }
+
+  // Lightning: damages every block in the row
+  strikeRow(centerBlock: Block, processedBlocks: Set<string> = new Set()) {
+    const rowId = `row:${centerBlock.row}`;
+    if (processedBlocks.has(rowId)) return;
+    processedBlocks.add(rowId);
+
+    const damageMultiplier = (this.bitBoosterTimer > 0 ? 2 : 1) * this.getDamageMultiplier();
+    const damage = this.upgrades.damage * damageMultiplier * this.LIGHTNING_DAMAGE_MULT;
+
+    for (const block of this.blocks.getRow(centerBlock.row)) {
+        if (this.blocks.get(block.row, block.col) !== block) continue;
+        if (block.bossId !== null) continue; // Bosses only take direct hits
+        if (block.takeDamage(damage, this.upgrades.armorPiercing)) {
+            this.destroyBlock(block, processedBlocks);
+        }
+    }
+  }
+
+  // Multiball: drops an extra ball that expires after MULTIBALL_DURATION
+  spawnTemporaryBall(x: number, y: number) {
+    const temporaryBalls = this.balls.filter(ball => ball.lifetime !== undefined).length;
+    if (temporaryBalls >= this.MAX_TEMPORARY_BALLS) return;
+
+    const radius = this.rowHeight / 1.5;
+    const gravityMult = 1 + (this.upgrades.gravity - 1) * 0.1;
+    const ball = new Ball(
+        x,
+        y,
+        radius * 0.3,
+        this.TEMPORARY_BALL_COLOR,
+        (this.rng.next() - 0.5) * (radius * 0.15),
+        0,
+        radius * 0.02 * gravityMult,
+        0.98,
+        this.upgrades.damage
+    );
+    ball.lifetime = this.MULTIBALL_DURATION;
+    this.balls.push(ball);
+  }
+
+  // Magnet: pulls every ball sideways towards the block for MAGNET_DURATION
+  startMagnet(x: number) {
+    this.magnetTimer = this.MAGNET_DURATION;
+    this.magnetX = x;
+  }
+
+  // Freeze: neighbours break on their next hit
+  freezeNeighbours(centerBlock: Block) {
+    for (const block of this.getNeighbours(centerBlock)) {
+        if (block.unbreakable || block.bossId !== null) continue;
+        block.hp = Math.min(block.hp, 1);
+        block.armor = 0; // Frozen plating cracks on any hit
+        block.frozen = true;
+    }
+  }
+
+  // Advance by a variable frame time, running as many fixed steps as have accumulated
+  advance(frameDt: number) {
+      this.stepAccumulator = Math.min(this.stepAccumulator + frameDt, this.FIXED_DT * this.MAX_STEPS_PER_FRAME);
+      while (this.stepAccumulator >= this.FIXED_DT) {
+          this.step(this.FIXED_DT);
+          this.stepAccumulator -= this.FIXED_DT;
+      }
+      this.runMaxDepth = Math.max(this.runMaxDepth, this.getDepth());
+  }
+
+  // Advance the world by exactly dt milliseconds
+  step(dt: number) {
+    // Update Bit Booster timer
+    if (this.bitBoosterTimer > 0) {
+        this.bitBoosterTimer -= dt;
+        if (this.bitBoosterTimer < 0) this.bitBoosterTimer = 0;
+    }
+
+    // Update Cash Booster timer
+    if (this.cashBoosterTimer > 0) {
+        this.cashBoosterTimer -= dt;
+        if (this.cashBoosterTimer < 0) this.cashBoosterTimer = 0;
+    }
+
+    // Update Magnet timer
+    if (this.magnetTimer > 0) {
+        this.magnetTimer -= dt;
+        if (this.magnetTimer < 0) this.magnetTimer = 0;
+    }
+
+    // Expire temporary (multiball) balls
+    for (const ball of this.balls) {
+        if (ball.lifetime !== undefined) ball.lifetime -= dt;
+    }
+    this.balls = this.balls.filter(ball => ball.lifetime === undefined || ball.lifetime > 0);
+
+    // Roll existing blocks for special types when they come near any ball
+    const chances = getSpawnChances(this);
+
+    if (chances.some(c => c.chance > 0)) {
+        // Only roll blocks within ~2 screens of any ball
+        const rollDistance = this.canvasHeight * 2;
+        const minRow = this.getRowAt(Math.min(...this.balls.map(ball => ball.y)) - rollDistance);
+        const maxRow = this.getRowAt(Math.max(...this.balls.map(ball => ball.y)) + rollDistance) + 1;
+
+        for (const block of this.blocks.inRows(minRow, maxRow)) {
+            // Skip if already rolled
+            if (block.typeRolled) continue;
+
+            // Only roll blocks within the playable hole area
+            // Blocks halfway sticking out (center near edge) are still eligible
+            if (block.x < this.holeLeft || block.x > this.holeRight) continue;
+
+            // Check if block is close to ANY ball vertically
+            const isNearAnyBall = this.balls.some(ball => Math.abs(block.y - ball.y) <= rollDistance);
+            if (!isNearAnyBall) continue;
+
+            // Roll the dice
+            block.typeRolled = true;
+            const rolledType = pickBlockType(this.getSpawnChancesAt(block.row), this.rng.next());
+            if (rolledType !== DEFAULT_BLOCK_TYPE) {
+                block.type = rolledType;
+            }
+        }
+    }
+
+    // Integrate in smaller sub-steps so fast balls can't tunnel through thin rows
+    const subDt = dt / this.subSteps;
+    const hits = new Set<string>();
+    for (let i = 0; i < this.subSteps; i++) {
+        this.stepPhysics(subDt, hits);
+    }
+
+    // Camera follow deepest ball
+    const targetY = this.getDeepestBall().y - this.canvasHeight / 3;
+    // Smoothly interpolate camera position towards target (up or down)
+    this.offsetY = this.offsetY + (targetY - this.offsetY) * 0.1;
+
+    // Infinite Generation
+    let currentDeepestY = 250 + this.maxRowGenerated * this.rowHeight;
+    while (this.offsetY + this.canvasHeight * 1.5 > currentDeepestY) {
+        this.generateRows(this.maxRowGenerated, 50);
+        currentDeepestY = 250 + this.maxRowGenerated * this.rowHeight;
+    }
+    this.evictRows();
+  }
+
+  // Moves balls and resolves wall and block collisions for one sub-step
+  stepPhysics(dt: number, hits: Set<string> = new Set()) {
+    const timeScale = dt / 16.667; // Normalize to 60fps (16.667ms per frame)
+
+    // Update all balls
+    for (const ball of this.balls) {
+        ball.update({ width: this.canvasWidth, height: this.canvasHeight }, timeScale);
+
+        // Magnet pull towards the destroyed magnet block
+        if (this.magnetTimer > 0) {
+            ball.dx += Math.sign(this.magnetX - ball.x) * (this.rowHeight / 1.5) * this.MAGNET_STRENGTH * timeScale;
+        }
+
+        // Clamp velocity to prevent physics instability
+        // Limit speed to roughly 80% of a block radius per frame
+        const maxVelocity = (this.rowHeight / 1.5) * 0.8;
+        if (ball.dy > maxVelocity) ball.dy = maxVelocity;
+        if (ball.dy < -maxVelocity) ball.dy = -maxVelocity;
+        if (ball.dx > maxVelocity) ball.dx = maxVelocity;
+        if (ball.dx < -maxVelocity) ball.dx = -maxVelocity;
+
+        // Hole Wall Collisions
+        if (ball.x - ball.radius < this.holeLeft) {
+            ball.x = this.holeLeft + ball.radius;
+            if (Math.abs(ball.dx) > 1) this.events.bounce?.(Math.abs(ball.dx) / 5);
+            ball.dx *= -ball.elasticity;
+        }
+        if (ball.x + ball.radius > this.holeRight) {
+            ball.x = this.holeRight - ball.radius;
+            if (Math.abs(ball.dx) > 1) this.events.bounce?.(Math.abs(ball.dx) / 5);
+            ball.dx *= -ball.elasticity;
+        }
+    }
+
+    if (this.ballCollisions) {
+        this.resolveBallCollisions();
+    }
+
+    // Check collisions for all balls (broadphase: only the rows around each ball)
+    for (let b = 0; b < this.balls.length; b++) {
+      const ball = this.balls[b];
+      const ballRow = this.getRowAt(ball.y);
+
+      for (let r = ballRow - 1; r <= ballRow + 2; r++) {
+        for (const block of this.blocks.getRow(r)) {
+          // Skip blocks already destroyed earlier in this pass (e.g. by an explosion)
+          if (this.blocks.get(block.row, block.col) !== block) continue;
+
+          if (!this.checkCollision(ball, block)) continue;
+
+          // Sub-steps still resolve the contact, but a ball damages a block at most once per step
+          const hitId = `${b}:${block.row},${block.col}`;
+          if (hits.has(hitId)) continue;
+          hits.add(hitId);
+
+          // Calculate effective damage (with bit booster and prestige tree multipliers)
+          const damageMultiplier = (this.bitBoosterTimer > 0 ? 2 : 1) * this.getDamageMultiplier();
+          const effectiveDamage = ball.damage * damageMultiplier;
+
+          if (block.bossId !== null) {
+            this.damageBoss(block.bossId, effectiveDamage);
+            continue;
+          }
+
+          const destroyed = block.takeDamage(effectiveDamage, this.upgrades.armorPiercing);
+          if (destroyed) {
+            this.destroyBlock(block);
+          }
+        }
+      }
+    }
+  }
+
+  // Elastic ball-vs-ball response, mass derived from radius (area)
+  resolveBallCollisions() {
+    for (let i = 0; i < this.balls.length; i++) {
+        for (let j = i + 1; j < this.balls.length; j++) {
+            const a = this.balls[i];
+            const b = this.balls[j];
+
+            const dx = a.x - b.x;
+            const dy = a.y - b.y;
+            const minDist = a.radius + b.radius;
+            const distSq = dx * dx + dy * dy;
+            if (distSq >= minDist * minDist) continue;
+
+            const dist = Math.sqrt(distSq);
+            let nx = 1;
+            let ny = 0;
+            if (dist > 0) { nx = dx / dist; ny = dy / dist; }
+
+            const massA = a.radius * a.radius;
+            const massB = b.radius * b.radius;
+            const invMassSum = 1 / massA + 1 / massB;
+
+            // Push apart proportionally to inverse mass
+            const overlap = minDist - dist;
+            a.x += nx * overlap * (1 / massA) / invMassSum;
+            a.y += ny * overlap * (1 / massA) / invMassSum;
+            b.x -= nx * overlap * (1 / massB) / invMassSum;
+            b.y -= ny * overlap * (1 / massB) / invMassSum;
+
+            // Only exchange momentum if the balls are moving towards each other
+            const relVel = (a.dx - b.dx) * nx + (a.dy - b.dy) * ny;
+            if (relVel >= 0) continue;
+
+            const restitution = Math.min(a.elasticity, b.elasticity);
+            const impulse = -(1 + restitution) * relVel / invMassSum;
+            a.dx += impulse * nx / massA;
+            a.dy += impulse * ny / massA;
+            b.dx -= impulse * nx / massB;
+            b.dy -= impulse * ny / massB;
+
+            if (Math.abs(relVel) > 1) this.events.bounce?.(Math.abs(relVel) / 5);
+        }
+    }
+  }
+
+  checkCollision(ball: Ball, block: Block): boolean {
+    const vertices = block.getVertices();
+    const distSq = (ball.x - block.x)**2 + (ball.y - block.y)**2;
+    if (distSq > (block.radius + ball.radius)**2) return false;
+
+    let closestDistSq = Infinity;
+    let closestPoint = { x: 0, y: 0 };
+
+    for (let i = 0; i < 6; i++) {
+        const p1 = vertices[i];
+        const p2 = vertices[(i + 1) % 6];
+        const edgeX = p2.x - p1.x;
+        const edgeY = p2.y - p1.y;
+        const lenSq = edgeX*edgeX + edgeY*edgeY;
+        const t = Math.max(0, Math.min(1, ((ball.x - p1.x) * edgeX + (ball.y - p1.y) * edgeY) / lenSq));
+        const projX = p1.x + t * edgeX;
+        const projY = p1.y + t * edgeY;
+        const dX = ball.x - projX;
+        const dY = ball.y - projY;
+        const dSq = dX*dX + dY*dY;
+
+        if (dSq < closestDistSq) {
+            closestDistSq = dSq;
+            closestPoint = { x: projX, y: projY };
+        }
+    }
+
+    if (closestDistSq < ball.radius * ball.radius) {
+        const dist = Math.sqrt(closestDistSq);
+        let nx = (ball.x - closestPoint.x);
+        let ny = (ball.y - closestPoint.y);
+
+        if (dist === 0) { nx = 0; ny = -1; }
+        else { nx /= dist; ny /= dist; }
+
+        const overlap = ball.radius - dist;
+        ball.x += nx * overlap;
+        ball.y += ny * overlap;
+
+        const dot = ball.dx * nx + ball.dy * ny;
+        // Only bounce if moving towards the wall (dot < 0)
+        if (dot < 0) {
+            // Report impact speed (approximated by dot product)
+            const impactSpeed = Math.abs(dot);
+            if (impactSpeed > 1) this.events.bounce?.(impactSpeed / 5);
+
+            ball.dx = (ball.dx - 2 * dot * nx) * ball.elasticity;
+            ball.dy = (ball.dy - 2 * dot * ny) * ball.elasticity;
+
+            // Add slight jitter scaled by block size
+            ball.dx += (this.rng.next() - 0.5) * (block.radius * 0.05);
+        }
+        return true;
+    }
+    return false;
+  }
+
+  prestige() {
+      // Award prestige points for the run before its stats are wiped
+      const reward = this.getPrestigeReward();
+      this.prestigePoints += reward;
+      this.prestigePointsEarned += reward;
+
+      // Increment prestige count (adds one more ball)
+      this.prestigeCount++;
+
+      this.resetRun();
+  }
+
+  // Second reset layer: trades every prestige (and the balls they added) for cores.
+  // Prestige points and the prestige tree are kept.
+  coreReset() {
+      if (!this.canCoreReset()) return;
+      this.cores += this.getCoreReward();
+      this.coreResets++;
+      this.prestigeCount = 0;
+
+      this.resetRun();
+  }
+
+  // Starts a fresh run: shared by prestige() and coreReset(), which settle their rewards first
+  private resetRun() {
+      // Reset run stats
+      this.runEarnings = 0n;
+      this.runMaxDepth = 0;
+
+      // Reset money (Seed Money gives a head start)
+      this.money = getStartingMoney(this.prestigeTree);
+
+      // Reset all upgrades to level 1 (or 0 for block upgrades), Muscle Memory keeps a share of the general ones
+      const kept = getKeptUpgradeFraction(this.prestigeTree);
+      const keep = (level: number) => Math.max(1, Math.floor(level * kept));
+      this.upgrades = {
+          damage: keep(this.upgrades.damage),
+          gravity: keep(this.upgrades.gravity),
+          efficiency: keep(this.upgrades.efficiency),
+          bitBoosters: 0,
+          explosiveBlocks: 0,
+          cashBoosters: 0,
+          lightningBlocks: 0,
+          multiballBlocks: 0,
+          magnetBlocks: 0,
+          freezeBlocks: 0,
+          armorPiercing: 0,
+          prospecting: 0,
+          refinery: 0
+      };
+
+      // Reset mined ore
+      this.resources = emptyResources();
+
+      // Live bosses go with the world (trophies are kept)
+      this.bosses.clear();
+
+      // Reset bit booster timer
+      this.bitBoosterTimer = 0;
+
+      // Reset cash booster timer
+      this.cashBoosterTimer = 0;
+
+      // Reset magnet timer
+      this.magnetTimer = 0;
+
+      // Clear all blocks
+      this.blocks.clear();
+
+      // Reset generation state
+      this.maxRowGenerated = 0;
+      this.minRowLoaded = 0;
+
+      // Reset balls - spawn multiple balls based on prestige count
+      const groundY = this.getGroundY();
+      const hoverDist = Math.min(this.canvasHeight * 0.3, 250);
+      const radius = this.rowHeight / 1.5;
+      const baseGravity = radius * 0.02 * (1 + (this.upgrades.gravity - 1) * 0.1);
+
+      const numberOfBalls = this.prestigeCount + 1; // 1 ball + prestige count
+      this.balls = [];
+
+      // Spawn balls in a spread pattern
+      for (let i = 0; i < numberOfBalls; i++) {
+          const spreadX = (i - (numberOfBalls - 1) / 2) * (radius * 2); // Spread horizontally
+          const spreadY = this.rng.next() * 30 - 15; // Small vertical variance
+
+          this.balls.push(new Ball(
+              this.canvasWidth / 2 + spreadX,
+              groundY - hoverDist + spreadY,
+              radius * 0.3,
+              '#ff4444',
+              (this.rng.next() - 0.5) * 4,
+              0,
+              baseGravity,
+              0.98,
+              this.upgrades.damage
+          ));
+      }
+
+      // Reset camera offset
+      this.offsetY = groundY - (this.canvasHeight * 0.75);
+
+      // Generate initial blocks
+      this.generateRows(0, 40);
+  }
+
+  // Money cost of the next level of each money upgrade (maxed block upgrades are caught by isUpgradeMaxed)
+  getShopPrices(): Record<MoneyUpgradeType, bigint> {
+      const prices = {} as Record<MoneyUpgradeType, bigint>;
+      for (const type of MONEY_UPGRADES) {
+          const curve = PRICE_CURVES[type];
+          prices[type] = geometricCost(curve, this.upgrades[type] - curve.startLevel, 1);
+      }
+      return prices;
+  }
+
+  // Levels a shop click would buy and their total cost, clamped to the level cap.
+  // 'max' buys everything affordable, or quotes the next level when nothing is.
+  getBulkPurchase(type: MoneyUpgradeType, amount: PurchaseAmount): { levels: number; cost: bigint } {
+      const curve = PRICE_CURVES[type];
+      const step = this.upgrades[type] - curve.startLevel;
+      const remaining = isBlockUpgrade(type) ? this.getBlockUpgradeMaxLevel() - this.upgrades[type] : Infinity;
+
+      let levels = amount === 'max' ? Math.max(1, maxAffordable(curve, step, this.money, remaining)) : amount;
+      levels = Math.max(0, Math.min(levels, remaining));
+      return { levels, cost: geometricCost(curve, step, levels) };
+  }
+
+  // Ore cost of the next level of each ore upgrade (doubles per level)
+  getOrePrices(): Record<OreUpgradeType, ResourceCost> {
+      const scale = (level: number, cost: ResourceCost): ResourceCost => {
+          const scaled: ResourceCost = {};
+          for (const ore of ORE_TYPES) {
+              if (cost[ore]) scaled[ore] = cost[ore] * Math.pow(2, level);
+          }
+          return scaled;
+      };
+
+      return {
+          armorPiercing: scale(this.upgrades.armorPiercing, { copper: 10, silver: 3 }),
+          prospecting: scale(this.upgrades.prospecting, { copper: 15, gold: 1 }),
+          refinery: scale(this.upgrades.refinery, { silver: 5, gold: 2, diamond: 1 })
+      };
+  }
+
+  isUpgradeMaxed(type: UpgradeType): boolean {
+      // Only block and ore upgrades have a level cap
+      if (isOreUpgrade(type)) return this.upgrades[type] >= ORE_UPGRADE_MAX_LEVEL;
+      return isBlockUpgrade(type) && this.upgrades[type] >= this.getBlockUpgradeMaxLevel();
+  }
+
+  // Ore upgrades always go one level at a time, amount only applies to money upgrades
+  canAffordUpgrade(type: UpgradeType, amount: PurchaseAmount = 1): boolean {
+      if (this.isUpgradeMaxed(type)) return false;
+      if (isOreUpgrade(type)) {
+          const cost = this.getOrePrices()[type];
+          return ORE_TYPES.every(ore => this.resources[ore] >= (cost[ore] ?? 0));
+      }
+      return this.money >= this.getBulkPurchase(type, amount).cost;
+  }
+
+  // Returns false if the upgrade is maxed or unaffordable
+  buyUpgrade(type: UpgradeType, amount: PurchaseAmount = 1): boolean {
+      if (this.isUpgradeMaxed(type)) return false;
+
+      if (isOreUpgrade(type)) {
+          if (!this.canAffordUpgrade(type)) return false;
+
+          const cost = this.getOrePrices()[type];
+          for (const ore of ORE_TYPES) {
+              this.resources[ore] -= cost[ore] ?? 0;
+          }
+          this.upgrades[type]++;
+          return true;
+      }
+
+      const { levels, cost } = this.getBulkPurchase(type, amount);
+      if (levels === 0 || this.money < cost) return false;
+
+      this.money -= cost;
+      this.upgrades[type] += levels;
+
+      // Apply Upgrade Effects Immediately to all balls
+      if (type === 'damage') {
+          for (const ball of this.balls) {
+              ball.damage = this.upgrades.damage; // Simple linear scaling
+          }
+      } else if (type === 'gravity') {
+          const radius = this.rowHeight / 1.5;
+          const gravityMult = 1 + (this.upgrades.gravity - 1) * 0.1;
+          for (const ball of this.balls) {
+              ball.gravity = radius * 0.02 * gravityMult;
+          }
+      } else if (isBlockUpgrade(type)) {
+          // Re-roll existing blocks to apply new upgrade immediately
+          this.rerollExistingBlocks();
+      }
+      return true;
+  }
+
+  // Grants estimated earnings for time spent away and returns the amount earned
+  simulateOfflineProgress(elapsedMs: number): bigint {
+      // Cap offline progress to prevent abuse
+      const cappedElapsed = Math.min(elapsedMs, this.MAX_OFFLINE_TIME);
+      const elapsedSeconds = cappedElapsed / 1000;
+
+      // Row of the deepest ball (getDepth is in meters, two per row)
+      const currentRow = Math.max(0, this.getRowAt(this.getDeepestBall().y));
+
+      // Calculate average block stats at current depth
+      const avgBlockHp = this.getBlockHp(currentRow);
+      const avgBlockValue = this.getBlockValue(currentRow);
+
+      // Calculate damage per second
+      // Assume each ball hits ~2 blocks per second on average (rough estimate)
+      const hitsPerSecond = 2;
+      // Temporary (multiball) balls don't last long enough to count
+      const permanentBalls = this.balls.filter(ball => ball.lifetime === undefined);
+      const totalDamage = permanentBalls.length * permanentBalls[0].damage * hitsPerSecond;
+
+      // Calculate blocks destroyed per second
+      const blocksPerSecond = totalDamage / avgBlockHp;
+
+      // Calculate money earned per second (with efficiency and prestige tree multipliers)
+      const moneyPerSecond = blocksPerSecond * avgBlockValue * this.getValueMultiplier() * getOfflineMultiplier(this.prestigeTree);
+
+      // Calculate total offline earnings
+      const offlineEarnings = toMoney(Math.floor(moneyPerSecond * elapsedSeconds));
+
+      // Add earnings to money (only if positive)
+      if (offlineEarnings > 0n) {
+          this.earn(offlineEarnings);
+      }
+
+      // Decay bit booster timer
+      if (this.bitBoosterTimer > 0) {
+          this.bitBoosterTimer = Math.max(0, this.bitBoosterTimer - cappedElapsed);
+      }
+
+      // Decay cash booster timer
+      if (this.cashBoosterTimer > 0) {
+          this.cashBoosterTimer = Math.max(0, this.cashBoosterTimer - cappedElapsed);
+      }
+
+      // Magnet and temporary balls have long run out
+      this.magnetTimer = Math.max(0, this.magnetTimer - cappedElapsed);
+      this.balls = permanentBalls;
+
+      return offlineEarnings > 0n ? offlineEarnings : 0n;
+  }
+
+  getState(): SimulationState {
+      return {
+          money: this.money.toString(),
+          seed: this.rng.seed,
+          rngState: this.rng.state,
+          caveSeed: this.caveNoise.seed,
+          upgrades: { ...this.upgrades },
+          resources: { ...this.resources },
+          bitBoosterTimer: this.bitBoosterTimer,
+          cashBoosterTimer: this.cashBoosterTimer,
+          magnetTimer: this.magnetTimer,
+          magnetX: this.magnetX,
+          prestigeCount: this.prestigeCount,
+          prestigePoints: this.prestigePoints,
+          prestigePointsEarned: this.prestigePointsEarned,
+          prestigeTree: { ...this.prestigeTree },
+          runEarnings: this.runEarnings.toString(),
+          runMaxDepth: this.runMaxDepth,
+          cores: this.cores,
+          coreResets: this.coreResets,
+          offsetY: this.offsetY,
+          maxRowGenerated: this.maxRowGenerated,
+          minRowLoaded: this.minRowLoaded,
+          rowHeight: this.rowHeight,
+          canvasWidth: this.canvasWidth,
+          canvasHeight: this.canvasHeight,
+          bosses: Array.from(this.bosses.values(), boss => ({ ...boss })),
+          bossTrophies: [...this.bossTrophies],
+          subSteps: this.subSteps,
+          stepAccumulator: this.stepAccumulator,
+          ballCollisions: this.ballCollisions,
+          balls: this.balls.map(ball => ({
+              x: ball.x,
+              y: ball.y,
+              dx: ball.dx,
+              dy: ball.dy,
+              radius: ball.radius,
+              damage: ball.damage,
+              lifetime: ball.lifetime
+          })),
+          blocks: Array.from(this.blocks, b => ({
+              x: b.x,
+              y: b.y,
+              row: b.row,
+              col: b.col,
+              hp: b.hp,
+              maxHp: b.maxHp,
+              value: b.value,
+              color: b.color,
+              radius: b.radius,
+              type: getBlockType(b.type).saveKey,
+              typeRolled: b.typeRolled,
+              frozen: b.frozen,
+              armor: b.armor,
+              unbreakable: b.unbreakable,
+              ore: b.ore ?? undefined,
+              bossId: b.bossId ?? undefined
+          }))
+      };
+  }
+
+  // Restores a saved state, then rescales it from the saved dimensions to the current ones
+  loadState(data: SimulationState) {
+      const targetW = this.canvasWidth;
+      const targetH = this.canvasHeight;
+
+      this.money = parseMoney(data.money);
+
+      // Restore the random stream where it left off
+      this.rng = new Random(data.seed);
+      this.rng.state = data.rngState;
+      this.caveNoise = new Noise(data.caveSeed);
+
+      this.upgrades = { ...data.upgrades };
+      this.resources = { ...data.resources };
+
+      // Restore boss layers and trophies
+      this.bosses = new Map(data.bosses.map(boss => [boss.id, { ...boss }]));
+      this.bossTrophies = [...data.bossTrophies];
+
+      // Timers
+      this.bitBoosterTimer = data.bitBoosterTimer;
+      this.cashBoosterTimer = data.cashBoosterTimer;
+      this.magnetTimer = data.magnetTimer;
+      this.magnetX = data.magnetX;
+
+      // Prestige layers (tree levels past a node's cap are clamped)
+      this.prestigeCount = data.prestigeCount;
+      this.prestigePoints = data.prestigePoints;
+      this.prestigePointsEarned = data.prestigePointsEarned;
+      this.prestigeTree = emptyPrestigeTree();
+      for (const node of PRESTIGE_NODE_IDS) {
+          this.prestigeTree[node] = Math.min(data.prestigeTree[node], getPrestigeNode(node).maxLevel);
+      }
+      this.runEarnings = parseMoney(data.runEarnings);
+      this.runMaxDepth = data.runMaxDepth;
+      this.cores = data.cores;
+      this.coreResets = data.coreResets;
+
+      // Fixed-step state
+      this.subSteps = data.subSteps;
+      this.stepAccumulator = data.stepAccumulator;
+
+      this.ballCollisions = data.ballCollisions;
+
+      this.offsetY = data.offsetY;
+      this.maxRowGenerated = data.maxRowGenerated;
+      this.minRowLoaded = data.minRowLoaded;
+      this.rowHeight = data.rowHeight; // Temporarily set to saved value for resize logic
+
+      // Restore Balls
+      const radius = this.rowHeight / 1.5;
+      const gravityMult = 1 + (this.upgrades.gravity - 1) * 0.1;
+      this.balls = data.balls.map(b => {
+          const ball = new Ball(b.x, b.y, b.radius, '#ff4444', b.dx, b.dy, radius * 0.02 * gravityMult, 0.98, b.damage);
+          if (b.lifetime !== undefined) {
+              ball.lifetime = b.lifetime;
+              ball.color = this.TEMPORARY_BALL_COLOR;
+          }
+          return ball;
+      });
+
+      // Restore Blocks
+      this.blocks.clear();
+      data.blocks.forEach(b => {
+          const block = new Block(b.x, b.y, b.radius, b.hp, b.value, b.color, b.row, b.col, blockTypeFromSaveKey(b.type));
+          block.maxHp = b.maxHp;
+          block.typeRolled = b.typeRolled;
+          block.frozen = b.frozen;
+          block.armor = b.armor;
+          block.unbreakable = b.unbreakable;
+          block.ore = isOreType(b.ore) ? b.ore : null;
+          block.bossId = b.bossId ?? null;
+          this.blocks.add(block);
+      });
+
+      // Pretend we are the saved size, then resize to the real dimensions
+      this.canvasWidth = data.canvasWidth;
+      this.canvasHeight = data.canvasHeight;
+      this.updateGeometry();
+
+      if (data.canvasWidth !== targetW || data.canvasHeight !== targetH) {
+          this.resize(targetW, targetH);
+      }
+  }
+}
+
+export default Simulation;
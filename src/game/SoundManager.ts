@@ -1,5 +1,12 @@
+import type { AmbientSound } from './Strata';
+
 class SoundManager {
   private audioCtx: AudioContext | null = null;
+
+  // Looping background drone for the current stratum
+  private ambient: { spec: AmbientSound; volume: number; gain: GainNode; sources: AudioScheduledSourceNode[] } | null = null;
+  private readonly AMBIENT_LEVEL = 0.08; // Relative to the master volume
+  private readonly AMBIENT_FADE = 1.5; // Crossfade time in seconds
   
   public volume: number = 0.5;
   public muteBlocks: boolean = false;
@@ -40,6 +47,71 @@ class SoundManager {
       this.playSound('bounce', Math.min(velocity, 1.5));
   }
 
+  // Crossfades to a new ambient drone (null fades out). Cheap to call every frame
+  setAmbient(spec: AmbientSound | null) {
+    if (this.ambient && this.ambient.spec === spec) {
+        // Follow volume changes from the settings menu
+        if (this.ambient.volume !== this.volume && this.audioCtx) {
+            this.ambient.volume = this.volume;
+            this.ambient.gain.gain.setTargetAtTime(this.volume * this.AMBIENT_LEVEL, this.audioCtx.currentTime, 0.1);
+        }
+        return;
+    }
+    if (!this.ambient && !spec) return;
+
+    const ctx = this.getContext();
+    if (!ctx) return;
+    const t = ctx.currentTime;
+
+    // Fade out the old drone
+    if (this.ambient) {
+        const { gain, sources } = this.ambient;
+        gain.gain.cancelScheduledValues(t);
+        gain.gain.setValueAtTime(gain.gain.value, t);
+        gain.gain.linearRampToValueAtTime(0, t + this.AMBIENT_FADE);
+        sources.forEach(source => source.stop(t + this.AMBIENT_FADE));
+        this.ambient = null;
+    }
+    if (!spec) return;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(this.volume * this.AMBIENT_LEVEL, t + this.AMBIENT_FADE);
+    gain.connect(ctx.destination);
+
+    // Tonal drone
+    const osc = ctx.createOscillator();
+    osc.type = spec.wave;
+    osc.frequency.value = spec.frequency;
+    const oscGain = ctx.createGain();
+    oscGain.gain.value = 1 - spec.rumble;
+    osc.connect(oscGain);
+    oscGain.connect(gain);
+
+    // Low rumble (looped noise through a lowpass)
+    const bufferSize = ctx.sampleRate * 2;
+    const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < bufferSize; i++) {
+        data[i] = Math.random() * 2 - 1;
+    }
+    const noise = ctx.createBufferSource();
+    noise.buffer = buffer;
+    noise.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = spec.frequency * 4;
+    const noiseGain = ctx.createGain();
+    noiseGain.gain.value = spec.rumble;
+    noise.connect(filter);
+    filter.connect(noiseGain);
+    noiseGain.connect(gain);
+
+    osc.start(t);
+    noise.start(t);
+    this.ambient = { spec, volume: this.volume, gain, sources: [osc, noise] };
+  }
+
   private playSound(type: 'pop' | 'bounce', intensity: number = 1.0) {
     const ctx = this.getContext();
     if (!ctx) return;
@@ -0,0 +1,90 @@
+import type { BlockType } from './BlockTypes';
+
+// Low drone played while the deepest ball is inside a stratum
+export interface AmbientSound {
+    frequency: number; // Base drone pitch in Hz
+    wave: OscillatorType;
+    rumble: number; // Amount of filtered noise mixed in (0-1)
+}
+
+export interface Stratum {
+    id: string;
+    name: string;
+    startRow: number; // First row of the band (2m per row)
+    palette: { hue: number; hueRange: number; saturation: number; lightness: number }; // Block colours cycle through hueRange
+    wall: { base: string; dark: string; light: string }; // Wall/background texture colours
+    hpMultiplier: number; // Scales the per-row HP growth
+    valueMultiplier: number; // Scales the per-row value growth
+    specialWeights: Partial<Record<BlockType, number>>; // Spawn chance multipliers, 1 when omitted
+    ambient: AmbientSound;
+}
+
+/**
+ * Depth bands, shallowest first.
+ * Each band takes over from its startRow until the next one begins.
+ */
+export const STRATA: Stratum[] = [
+    {
+        id: 'topsoil',
+        name: 'Topsoil',
+        startRow: 0,
+        palette: { hue: 25, hueRange: 60, saturation: 50, lightness: 45 },
+        wall: { base: '#5d4037', dark: 'rgba(0,0,0,0.1)', light: 'rgba(255,255,255,0.05)' },
+        hpMultiplier: 1,
+        valueMultiplier: 1,
+        specialWeights: {},
+        ambient: { frequency: 55, wave: 'sine', rumble: 0.1 }
+    },
+    {
+        id: 'clay',
+        name: 'Clay',
+        startRow: 50, // 100m
+        palette: { hue: 5, hueRange: 25, saturation: 55, lightness: 50 },
+        wall: { base: '#8d5a3b', dark: 'rgba(60,20,0,0.15)', light: 'rgba(255,200,150,0.08)' },
+        hpMultiplier: 1.2,
+        valueMultiplier: 1.1,
+        specialWeights: { freeze: 1.5, magnet: 1.5 },
+        ambient: { frequency: 49, wave: 'sine', rumble: 0.2 }
+    },
+    {
+        id: 'stone',
+        name: 'Stone',
+        startRow: 150, // 300m
+        palette: { hue: 200, hueRange: 30, saturation: 10, lightness: 55 },
+        wall: { base: '#5f6366', dark: 'rgba(0,0,0,0.2)', light: 'rgba(255,255,255,0.1)' },
+        hpMultiplier: 1.5,
+        valueMultiplier: 1.3,
+        specialWeights: { explosive: 1.5, lightning: 1.25 },
+        ambient: { frequency: 41, wave: 'triangle', rumble: 0.3 }
+    },
+    {
+        id: 'magma',
+        name: 'Magma',
+        startRow: 350, // 700m
+        palette: { hue: 0, hueRange: 35, saturation: 85, lightness: 45 },
+        wall: { base: '#3e1a12', dark: 'rgba(0,0,0,0.25)', light: 'rgba(255,120,0,0.15)' },
+        hpMultiplier: 2,
+        valueMultiplier: 1.8,
+        specialWeights: { explosive: 2, freeze: 0.5 },
+        ambient: { frequency: 33, wave: 'sawtooth', rumble: 0.6 }
+    },
+    {
+        id: 'crystal',
+        name: 'Crystal Caverns',
+        startRow: 750, // 1500m
+        palette: { hue: 180, hueRange: 120, saturation: 70, lightness: 60 },
+        wall: { base: '#1f2a44', dark: 'rgba(0,0,0,0.2)', light: 'rgba(150,220,255,0.2)' },
+        hpMultiplier: 2.5,
+        valueMultiplier: 3,
+        specialWeights: { cashBooster: 2, lightning: 1.5 },
+        ambient: { frequency: 110, wave: 'sine', rumble: 0.05 }
+    }
+];
+
+// Stratum containing a row (rows above the surface count as topsoil)
+export const getStratumAt = (row: number): Stratum => {
+    for (let i = STRATA.length - 1; i > 0; i--) {
+        if (row >= STRATA[i].startRow) return STRATA[i];
+    }
+    return STRATA[0];
+};
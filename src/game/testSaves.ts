@@ -0,0 +1,23 @@
+import { defaultAutoBuyerConfig } from './AutoBuyer';
+import { defaultAutoPrestigeConfig } from './AutoPrestige';
+import { SAVE_VERSION, type SaveData } from './SaveSchema';
+import Simulation from './Simulation';
+
+// A valid current-version save of a short run, for tests of the save pipeline
+export const makeSave = (overrides: Partial<SaveData> = {}): SaveData => {
+    const sim = new Simulation(1280, 720, 7);
+    sim.launchBalls();
+    for (let i = 0; i < 60; i++) sim.advance(16.667);
+
+    return {
+        version: SAVE_VERSION,
+        ...sim.getState(),
+        settings: { showHp: true, volume: 0.5, sfxBlocks: true, sfxBounce: true, numberFormat: 'suffix' },
+        autoBuyer: defaultAutoBuyerConfig(),
+        autoPrestige: defaultAutoPrestigeConfig(),
+        prestigeLog: [],
+        runStartedAt: 1_700_000_000_000,
+        lastActiveTime: 1_700_000_000_000,
+        ...overrides
+    };
+};
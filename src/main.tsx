@@ -2,9 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { createFallbackStorage, createSaveStorage } from './game/SaveStorage'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Saves are read synchronously by the engine, so the storage backend is opened before the first render
+createSaveStorage().catch(e => {
+  console.error('[Storage] Failed to open storage, falling back:', e)
+  return createFallbackStorage()
+}).then(storage => {
+  console.log(`[Storage] Using ${storage.name}`)
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App storage={storage} />
+    </StrictMode>,
+  )
+})